@@ -0,0 +1,305 @@
+import { queryBuilder } from '@better-auth-kit/convex/handler';
+import { v } from 'convex/values';
+import { ACCOUNT_DELETION_GRACE_DAYS } from '../../types';
+import { internal } from './_generated/api';
+import { query, type MutationCtx, type QueryCtx } from './_generated/server';
+import { type SessionObj } from './betterAuth';
+import { internalMutation, mutation } from './functions';
+
+const DELETION_GRACE_PERIOD_MS = ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000;
+/** Messages deleted per run of `purge`, before their conversations */
+const PURGE_MESSAGE_BATCH_SIZE = 200;
+/** Conversations deleted per run of `purge` once their messages are gone */
+const PURGE_BATCH_SIZE = 25;
+/** Daily usage rows deleted per run of `purge` */
+const PURGE_USAGE_BATCH_SIZE = 500;
+/** A purge that hasn't finished after this long is assumed to have failed and started again */
+const PURGE_RETRY_MS = 24 * 60 * 60 * 1000;
+
+type AuthUser = {
+	_id: string;
+	name?: string;
+	email?: string;
+	createdAt?: number;
+};
+
+async function getSession(ctx: QueryCtx | MutationCtx, sessionToken: string): Promise<SessionObj> {
+	const session = await ctx.runQuery(internal.betterAuth.getSession, {
+		sessionToken,
+	});
+
+	if (!session) {
+		throw new Error('Invalid session token');
+	}
+
+	return session as SessionObj;
+}
+
+function getSettings(ctx: QueryCtx | MutationCtx, userId: string) {
+	return ctx.db
+		.query('user_settings')
+		.withIndex('by_user', (q) => q.eq('user_id', userId))
+		.first();
+}
+
+/**
+ * Everything stored for the user besides the messages, which are fetched per conversation.
+ * Secrets are left out, only their masked previews are included.
+ */
+export const exportData = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const s = await getSession(ctx, args.session_token);
+
+		const user = (await ctx.runQuery(internal.betterAuth.query, {
+			tableName: 'user',
+			query: queryBuilder((q) => q.eq('id', s.userId)),
+			single: true,
+		})) as AuthUser | null;
+
+		const [settings, rules, enabledModels, keys, customProviders, projects, conversations] =
+			await Promise.all([
+				getSettings(ctx, s.userId),
+				ctx.db
+					.query('user_rules')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+				ctx.db
+					.query('user_enabled_models')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+				ctx.db
+					.query('user_keys')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+				ctx.db
+					.query('user_custom_providers')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+				ctx.db
+					.query('projects')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+				ctx.db
+					.query('conversations')
+					.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+					.collect(),
+			]);
+
+		return {
+			user: user && {
+				id: user._id,
+				name: user.name,
+				email: user.email,
+				created_at: user.createdAt,
+			},
+			settings: settings && {
+				privacy_mode: settings.privacy_mode,
+				monthly_budget_usd: settings.monthly_budget_usd,
+				budget_warning_percent: settings.budget_warning_percent,
+				provider_budgets: settings.provider_budgets,
+			},
+			rules: rules.map((rule) => ({ name: rule.name, attach: rule.attach, rule: rule.rule })),
+			enabled_models: enabledModels.map((model) => ({
+				provider: model.provider,
+				model_id: model.model_id,
+				pinned: model.pinned ?? false,
+			})),
+			keys: keys.map((key) => ({ provider: key.provider, preview: key.preview })),
+			custom_providers: customProviders.map((provider) => ({
+				name: provider.name,
+				base_url: provider.base_url,
+				models: provider.models,
+				key_preview: provider.key_preview,
+			})),
+			projects: projects.map((project) => ({
+				id: project._id,
+				name: project.name,
+				default_model_id: project.default_model_id,
+				rules: rules.filter((rule) => project.rule_ids.includes(rule._id)).map((r) => r.name),
+			})),
+			conversations,
+		};
+	},
+});
+
+export const getDeletion = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const s = await getSession(ctx, args.session_token);
+		const settings = await getSettings(ctx, s.userId);
+
+		return { scheduled_at: settings?.deletion_scheduled_at ?? null };
+	},
+});
+
+/**
+ * Schedule the account for deletion, it can be cancelled until the grace period is over
+ */
+export const requestDeletion = mutation({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const s = await getSession(ctx, args.session_token);
+		const settings = await getSettings(ctx, s.userId);
+
+		if (settings?.deletion_scheduled_at) return settings.deletion_scheduled_at;
+
+		const scheduledAt = Date.now() + DELETION_GRACE_PERIOD_MS;
+
+		if (!settings) {
+			await ctx.db.insert('user_settings', {
+				user_id: s.userId,
+				privacy_mode: false,
+				deletion_scheduled_at: scheduledAt,
+			});
+		} else {
+			await ctx.db.patch(settings._id, { deletion_scheduled_at: scheduledAt });
+		}
+
+		return scheduledAt;
+	},
+});
+
+export const cancelDeletion = mutation({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const s = await getSession(ctx, args.session_token);
+		const settings = await getSettings(ctx, s.userId);
+
+		if (!settings?.deletion_scheduled_at) return;
+		if (settings.deletion_scheduled_at <= Date.now()) {
+			throw new Error('Account deletion has already started');
+		}
+
+		await ctx.db.patch(settings._id, { deletion_scheduled_at: undefined });
+	},
+});
+
+async function deleteAll(
+	ctx: MutationCtx,
+	table: 'user_rules' | 'user_keys' | 'user_custom_providers' | 'user_enabled_models' | 'projects',
+	userId: string
+) {
+	const docs = await ctx.db
+		.query(table)
+		.withIndex('by_user', (q) => q.eq('user_id', userId))
+		.collect();
+
+	for (const doc of docs) {
+		await ctx.db.delete(doc._id);
+	}
+}
+
+/**
+ * Delete everything belonging to the user, a batch of messages and then of conversations
+ * at a time. Reschedules itself until they are gone, then removes the rest of the account.
+ */
+export const purge = internalMutation({
+	args: {
+		user_id: v.string(),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const messages = await ctx.db
+			.query('messages')
+			.withIndex('by_user', (q) => q.eq('user_id', args.user_id))
+			.take(PURGE_MESSAGE_BATCH_SIZE);
+
+		for (const message of messages) {
+			await ctx.db.delete(message._id);
+		}
+
+		if (messages.length === PURGE_MESSAGE_BATCH_SIZE) {
+			await ctx.scheduler.runAfter(0, internal.account.purge, args);
+			return;
+		}
+
+		const conversations = await ctx.db
+			.query('conversations')
+			.withIndex('by_user', (q) => q.eq('user_id', args.user_id))
+			.take(PURGE_BATCH_SIZE);
+
+		// Generation jobs and messages saved before `user_id` was set go along with their conversation
+		for (const conversation of conversations) {
+			await ctx.db.delete(conversation._id);
+		}
+
+		if (conversations.length === PURGE_BATCH_SIZE) {
+			await ctx.scheduler.runAfter(0, internal.account.purge, args);
+			return;
+		}
+
+		const usage = await ctx.db
+			.query('usage_daily')
+			.withIndex('by_user_day', (q) => q.eq('user_id', args.user_id))
+			.take(PURGE_USAGE_BATCH_SIZE);
+
+		for (const row of usage) {
+			await ctx.db.delete(row._id);
+		}
+
+		if (usage.length === PURGE_USAGE_BATCH_SIZE) {
+			await ctx.scheduler.runAfter(0, internal.account.purge, args);
+			return;
+		}
+
+		await deleteAll(ctx, 'user_rules', args.user_id);
+		await deleteAll(ctx, 'user_keys', args.user_id);
+		await deleteAll(ctx, 'user_custom_providers', args.user_id);
+		await deleteAll(ctx, 'user_enabled_models', args.user_id);
+		await deleteAll(ctx, 'projects', args.user_id);
+
+		for (const tableName of ['session', 'account']) {
+			await ctx.runMutation(internal.betterAuth.delete_, {
+				tableName,
+				query: queryBuilder((q) => q.eq('userId', args.user_id)),
+				deleteAll: true,
+			});
+		}
+
+		await ctx.runMutation(internal.betterAuth.delete_, {
+			tableName: 'user',
+			query: queryBuilder((q) => q.eq('id', args.user_id)),
+		});
+
+		// Last, so a failed run is picked up again by a later sweep
+		const settings = await getSettings(ctx, args.user_id);
+		if (settings) await ctx.db.delete(settings._id);
+	},
+});
+
+/**
+ * Start purging the accounts whose grace period is over, unless their purge is already running
+ */
+export const sweepDeletions = internalMutation({
+	args: {},
+	handler: async (ctx): Promise<{ scheduled: number }> => {
+		const now = Date.now();
+		const due = await ctx.db
+			.query('user_settings')
+			.withIndex('by_deletion_scheduled_at', (q) =>
+				q.gt('deletion_scheduled_at', 0).lte('deletion_scheduled_at', now)
+			)
+			.filter((q) =>
+				q.or(
+					q.eq(q.field('purge_started_at'), undefined),
+					q.lt(q.field('purge_started_at'), now - PURGE_RETRY_MS)
+				)
+			)
+			.take(100);
+
+		for (const settings of due) {
+			await ctx.db.patch(settings._id, { purge_started_at: now });
+			await ctx.scheduler.runAfter(0, internal.account.purge, { user_id: settings.user_id });
+		}
+
+		return { scheduled: due.length };
+	},
+});
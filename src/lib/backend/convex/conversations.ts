@@ -1,18 +1,119 @@
-import { v } from 'convex/values';
-import enhancedSearch from '../../utils/fuzzy-search';
+import { paginationOptsValidator, type PaginationResult } from 'convex/server';
+import { type Infer, v } from 'convex/values';
+import { BULK_CONVERSATION_LIMIT, IMPORT_MESSAGE_BATCH_SIZE } from '../../types';
 import { getFirstSentence } from '../../utils/strings';
-import { api } from './_generated/api';
+import { matchesSearchMode } from '../../utils/search-snippet';
+import { normalizeTags, parseSuggestedTags } from '../../utils/tags';
+import { api, internal } from './_generated/api';
 import { type Doc, type Id } from './_generated/dataModel';
-import { query } from './_generated/server';
-import { type SessionObj } from './betterAuth';
-import { mutation } from './functions';
+import {
+	// eslint-disable-next-line no-restricted-imports -- see `backfillModelIds`
+	internalMutation as rawInternalMutation,
+	query,
+	type QueryCtx,
+} from './_generated/server';
+import { internalMutation, mutation } from './functions';
+import { getConversationTree, searchModeValidator } from './messages';
 import { messageRoleValidator } from './schema';
 
-export const get = query({
+export const conversationFiltersValidator = v.object({
+	tag: v.optional(v.string()),
+	/** Model of the latest answer */
+	model_id: v.optional(v.string()),
+	/** Last update time range, inclusive */
+	from: v.optional(v.number()),
+	to: v.optional(v.number()),
+	/** Whether the conversation is shared with a public link */
+	public: v.optional(v.boolean()),
+	project_id: v.optional(v.id('projects')),
+	/** Archived conversations are left out unless set */
+	include_archived: v.optional(v.boolean()),
+});
+
+export type ConversationFilters = Infer<typeof conversationFiltersValidator>;
+
+function matchesFilters(conversation: Doc<'conversations'>, filters: ConversationFilters) {
+	const updatedAt = conversation.updated_at ?? 0;
+
+	return (
+		(filters.include_archived || conversation.archived_at === undefined) &&
+		(filters.tag === undefined || (conversation.tags ?? []).includes(filters.tag)) &&
+		(filters.model_id === undefined || conversation.model_id === filters.model_id) &&
+		(filters.from === undefined || updatedAt >= filters.from) &&
+		(filters.to === undefined || updatedAt <= filters.to) &&
+		(filters.public === undefined || Boolean(conversation.public) === filters.public) &&
+		(filters.project_id === undefined || conversation.project_id === filters.project_id)
+	);
+}
+
+/**
+ * The user's conversations matching all of the filters, most recently updated first. Reads
+ * the most selective index available and checks the other filters on what it returns
+ */
+export async function filterConversations(
+	ctx: QueryCtx,
+	userId: string,
+	filters: ConversationFilters
+): Promise<Doc<'conversations'>[]> {
+	let conversations: Doc<'conversations'>[];
+
+	if (filters.tag !== undefined) {
+		const tag = filters.tag;
+		const rows = await ctx.db
+			.query('conversation_tags')
+			.withIndex('by_user_tag', (q) => q.eq('user_id', userId).eq('tag', tag))
+			.collect();
+
+		const docs = await Promise.all(rows.map((row) => ctx.db.get(row.conversation_id)));
+		conversations = docs.filter((doc) => doc !== null);
+	} else if (filters.project_id !== undefined) {
+		const projectId = filters.project_id;
+		conversations = await ctx.db
+			.query('conversations')
+			.withIndex('by_user_project', (q) => q.eq('user_id', userId).eq('project_id', projectId))
+			.collect();
+	} else if (filters.model_id !== undefined) {
+		const modelId = filters.model_id;
+		conversations = await ctx.db
+			.query('conversations')
+			.withIndex('by_user_model', (q) => q.eq('user_id', userId).eq('model_id', modelId))
+			.collect();
+	} else if (filters.public) {
+		conversations = await ctx.db
+			.query('conversations')
+			.withIndex('by_user_public', (q) => q.eq('user_id', userId).eq('public', true))
+			.collect();
+	} else {
+		const { from, to } = filters;
+		conversations = await ctx.db
+			.query('conversations')
+			.withIndex('by_user_updated', (q) => {
+				const byUser = q.eq('user_id', userId);
+				if (from !== undefined && to !== undefined) {
+					return byUser.gte('updated_at', from).lte('updated_at', to);
+				}
+				if (from !== undefined) return byUser.gte('updated_at', from);
+				if (to !== undefined) return byUser.lte('updated_at', to);
+				return byUser;
+			})
+			.collect();
+	}
+
+	return conversations
+		.filter((conversation) => matchesFilters(conversation, filters))
+		.sort((a, b) => (b.updated_at ?? 0) - (a.updated_at ?? 0));
+}
+
+/**
+ * Page of the conversations listed by time in the sidebar, most recently updated first.
+ * Pinned conversations and the ones in a project are listed on their own
+ */
+export const list = query({
 	args: {
 		session_token: v.string(),
+		paginationOpts: paginationOptsValidator,
 	},
-	handler: async (ctx, args) => {
+	handler: async (ctx, args): Promise<PaginationResult<Doc<'conversations'>>> => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
 			session_token: args.session_token,
 		});
@@ -20,20 +121,114 @@ export const get = query({
 		if (!session) {
 			throw new Error('Unauthorized');
 		}
-		const s = session as SessionObj;
 
-		const conversations = await ctx.db
+		return await ctx.db
+			.query('conversations')
+			.withIndex('by_user_archived_project', (q) =>
+				q.eq('user_id', session.userId).eq('archived_at', undefined).eq('project_id', undefined)
+			)
+			.order('desc')
+			.filter((q) => q.neq(q.field('pinned'), true))
+			.paginate(args.paginationOpts);
+	},
+});
+
+/**
+ * Pinned conversations, most recently updated first
+ */
+export const pinned = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'conversations'>[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		return await ctx.db
 			.query('conversations')
-			.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+			.withIndex('by_user_pinned', (q) => q.eq('user_id', session.userId).eq('pinned', true))
+			.order('desc')
+			.filter((q) => q.eq(q.field('archived_at'), undefined))
 			.collect();
+	},
+});
 
-		return conversations.sort((a, b) => {
-			if (a.generating && b.generating) return 0;
-			const aTime = a.updated_at ?? 0;
-			const bTime = b.updated_at ?? 0;
+/**
+ * Archived conversations, most recently archived first
+ */
+export const archived = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'conversations'>[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		return await ctx.db
+			.query('conversations')
+			.withIndex('by_user_archived', (q) => q.eq('user_id', session.userId).gte('archived_at', 0))
+			.order('desc')
+			.collect();
+	},
+});
 
-			return bTime - aTime;
+export const filter = query({
+	args: {
+		session_token: v.string(),
+		filters: conversationFiltersValidator,
+	},
+	handler: async (ctx, args): Promise<Doc<'conversations'>[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
 		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		return await filterConversations(ctx, session.userId, args.filters);
+	},
+});
+
+/**
+ * Tags the user has used, most used first
+ */
+export const tags = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<{ tag: string; count: number }[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const rows = await ctx.db
+			.query('conversation_tags')
+			.withIndex('by_user_tag', (q) => q.eq('user_id', session.userId))
+			.collect();
+
+		const counts = new Map<string, number>();
+		for (const row of rows) {
+			counts.set(row.tag, (counts.get(row.tag) ?? 0) + 1);
+		}
+
+		return [...counts]
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
 	},
 });
 
@@ -95,6 +290,7 @@ export const createAndAddMessage = mutation({
 		content_html: v.optional(v.string()),
 		role: messageRoleValidator,
 		session_token: v.string(),
+		project_id: v.optional(v.id('projects')),
 		web_search_enabled: v.optional(v.boolean()),
 		attachments: v.optional(
 			v.array(
@@ -121,6 +317,13 @@ export const createAndAddMessage = mutation({
 			throw new Error('Unauthorized');
 		}
 
+		if (args.project_id) {
+			const project = await ctx.db.get(args.project_id);
+			if (!project || project.user_id !== session.userId) {
+				throw new Error('Project not found or unauthorized');
+			}
+		}
+
 		// use first sentence as a placeholder title
 		const [firstSentence, full] = getFirstSentence(args.content);
 
@@ -128,6 +331,7 @@ export const createAndAddMessage = mutation({
 			title: firstSentence ?? full.slice(0, 35),
 			// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Id type is janking out
 			user_id: session.userId as any,
+			project_id: args.project_id,
 			updated_at: Date.now(),
 			generating: true,
 			public: false,
@@ -169,42 +373,164 @@ export const createBranched = mutation({
 		if (existingConversation.user_id !== session.userId && !existingConversation.public)
 			throw new Error('Unauthorized');
 
-		const messages = await ctx.db
-			.query('messages')
-			.withIndex('by_conversation', (q) => q.eq('conversation_id', args.conversation_id))
-			.collect();
-
-		const messageIndex = messages.findIndex((m) => m._id === args.from_message_id);
-
-		const newMessages = messages.slice(0, messageIndex + 1);
+		// Only the branch leading to the message is copied, not its other versions
+		const tree = await getConversationTree(ctx, args.conversation_id);
+		const newMessages = tree.pathTo(args.from_message_id);
 
 		const newConversationId = await ctx.db.insert('conversations', {
 			title: existingConversation.title,
 			branched_from: existingConversation._id,
 			user_id: session.userId,
+			// Branches of someone else's public conversation don't belong to their projects
+			project_id:
+				existingConversation.user_id === session.userId
+					? existingConversation.project_id
+					: undefined,
 			updated_at: Date.now(),
 			generating: false,
 			public: false,
 			cost_usd: newMessages.reduce((acc, m) => acc + (m.cost_usd ?? 0), 0),
+			token_count: newMessages.reduce((acc, m) => acc + (m.token_count ?? 0), 0),
 		});
 
-		await Promise.all(
-			newMessages.map((m) => {
-				const newMessage = {
-					...m,
-					_id: undefined,
-					_creationTime: undefined,
-					conversation_id: newConversationId,
-				};
+		// Inserted one by one so each copy can point to the previous one
+		let parentId: Id<'messages'> | undefined;
+		for (const m of newMessages) {
+			const newMessage = {
+				...m,
+				_id: undefined,
+				_creationTime: undefined,
+				conversation_id: newConversationId,
+				user_id: session.userId,
+				parent_id: parentId,
+				version: 0,
+			};
+
+			parentId = await ctx.db.insert('messages', newMessage);
+		}
 
-				return ctx.db.insert('messages', newMessage);
-			})
-		);
+		await ctx.db.patch(newConversationId, { active_leaf_id: parentId });
 
 		return newConversationId;
 	},
 });
 
+/**
+ * Create the conversation for another app's export, see `$lib/utils/conversation-import`.
+ * Its messages are added with `importMessages`, a batch at a time.
+ */
+export const importConversation = mutation({
+	args: {
+		session_token: v.string(),
+		title: v.string(),
+		updated_at: v.optional(v.number()),
+	},
+	handler: async (ctx, args): Promise<Id<'conversations'>> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		// Keeps the conversation where it belongs in the sidebar rather than at the top
+		return await ctx.db.insert('conversations', {
+			title: args.title,
+			user_id: session.userId,
+			updated_at: args.updated_at ?? Date.now(),
+			generating: false,
+			public: false,
+		});
+	},
+});
+
+/**
+ * Add a batch of imported messages to a conversation created by `importConversation`.
+ * Returns the ids of the inserted messages in the same order, later batches link to them
+ * with `parent_id`.
+ */
+export const importMessages = mutation({
+	args: {
+		session_token: v.string(),
+		conversation_id: v.id('conversations'),
+		// Parents come before their children
+		messages: v.array(
+			v.object({
+				key: v.string(),
+				/** Parent imported in an earlier batch */
+				parent_id: v.optional(v.id('messages')),
+				/** Parent in this batch */
+				parent_key: v.optional(v.string()),
+				role: messageRoleValidator,
+				content: v.string(),
+				reasoning: v.optional(v.string()),
+				model_id: v.optional(v.string()),
+			})
+		),
+		active_leaf_key: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<Id<'messages'>[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		if (args.messages.length > IMPORT_MESSAGE_BATCH_SIZE) {
+			throw new Error(`At most ${IMPORT_MESSAGE_BATCH_SIZE} messages can be imported at once`);
+		}
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		const ids = new Map<string, Id<'messages'>>();
+		const inserted: Id<'messages'>[] = [];
+		const childCounts = new Map<Id<'messages'> | undefined, number>();
+
+		for (const message of args.messages) {
+			const parentId =
+				message.parent_id ?? (message.parent_key ? ids.get(message.parent_key) : undefined);
+
+			// Siblings from earlier batches count towards the version
+			let version = childCounts.get(parentId);
+			if (version === undefined) {
+				const siblings = await ctx.db
+					.query('messages')
+					.withIndex('by_conversation_parent', (q) =>
+						q.eq('conversation_id', conversation._id).eq('parent_id', parentId)
+					)
+					.collect();
+				version = siblings.length;
+			}
+			childCounts.set(parentId, version + 1);
+
+			const id = await ctx.db.insert('messages', {
+				conversation_id: conversation._id,
+				user_id: session.userId,
+				role: message.role,
+				content: message.content,
+				reasoning: message.reasoning,
+				model_id: message.model_id,
+				parent_id: parentId,
+				version,
+			});
+			ids.set(message.key, id);
+			inserted.push(id);
+		}
+
+		const activeLeafId = args.active_leaf_key ? ids.get(args.active_leaf_key) : undefined;
+
+		// Inserting messages bumps `updated_at`, the imported one is kept
+		await ctx.db.patch(conversation._id, {
+			updated_at: conversation.updated_at,
+			...(activeLeafId && { active_leaf_id: activeLeafId }),
+		});
+
+		return inserted;
+	},
+});
+
 export const updateTitle = mutation({
 	args: {
 		conversation_id: v.id('conversations'),
@@ -265,6 +591,7 @@ export const updateCostUsd = mutation({
 	args: {
 		conversation_id: v.id('conversations'),
 		cost_usd: v.number(),
+		token_count: v.optional(v.number()),
 		session_token: v.string(),
 	},
 	handler: async (ctx, args) => {
@@ -282,6 +609,7 @@ export const updateCostUsd = mutation({
 
 		await ctx.db.patch(args.conversation_id, {
 			cost_usd: (conversation.cost_usd ?? 0) + args.cost_usd,
+			token_count: (conversation.token_count ?? 0) + (args.token_count ?? 0),
 		});
 	},
 });
@@ -339,6 +667,115 @@ export const togglePin = mutation({
 	},
 });
 
+/**
+ * Move the conversation to a project, or out of its project when `project_id` is unset
+ */
+export const setProject = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		project_id: v.optional(v.id('projects')),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		if (args.project_id) {
+			const project = await ctx.db.get(args.project_id);
+			if (!project || project.user_id !== session.userId) {
+				throw new Error('Project not found or unauthorized');
+			}
+		}
+
+		await ctx.db.patch(args.conversation_id, { project_id: args.project_id });
+	},
+});
+
+/**
+ * Archive the conversation to hide it from the sidebar, or restore it
+ */
+export const setArchived = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		archived: v.boolean(),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		await ctx.db.patch(args.conversation_id, {
+			archived_at: args.archived ? (conversation.archived_at ?? Date.now()) : undefined,
+		});
+	},
+});
+
+export const setTags = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		tags: v.array(v.string()),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		await ctx.db.patch(args.conversation_id, { tags: normalizeTags(args.tags) });
+	},
+});
+
+/**
+ * Save the tags suggested by a model, `text` is its raw answer
+ */
+export const setSuggestedTags = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		text: v.string(),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<string[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		const suggestedTags = parseSuggestedTags(args.text);
+		await ctx.db.patch(args.conversation_id, { suggested_tags: suggestedTags });
+
+		return suggestedTags;
+	},
+});
+
 export const remove = mutation({
 	args: {
 		conversation_id: v.id('conversations'),
@@ -363,6 +800,116 @@ export const remove = mutation({
 	},
 });
 
+/**
+ * The user's conversations among `conversation_ids`, throws if any belongs to someone else
+ */
+async function getOwnedConversations(
+	ctx: QueryCtx,
+	conversationIds: Id<'conversations'>[],
+	userId: string
+) {
+	if (conversationIds.length > BULK_CONVERSATION_LIMIT) {
+		throw new Error(`At most ${BULK_CONVERSATION_LIMIT} conversations can be changed at once`);
+	}
+
+	const conversations: Doc<'conversations'>[] = [];
+	for (const id of conversationIds) {
+		const conversation = await ctx.db.get(id);
+
+		// Already gone, e.g. deleted from another tab
+		if (!conversation) continue;
+		if (conversation.user_id !== userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		conversations.push(conversation);
+	}
+
+	return conversations;
+}
+
+/**
+ * Apply the same change to several conversations. Only fields are written, so a whole
+ * selection fits in one transaction
+ */
+export const bulkUpdate = mutation({
+	args: {
+		conversation_ids: v.array(v.id('conversations')),
+		patch: v.object({
+			public: v.optional(v.boolean()),
+			archived: v.optional(v.boolean()),
+			/** `null` moves the conversations out of their project */
+			project_id: v.optional(v.union(v.id('projects'), v.null())),
+		}),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversations = await getOwnedConversations(ctx, args.conversation_ids, session.userId);
+
+		const { patch } = args;
+		if (patch.project_id) {
+			const project = await ctx.db.get(patch.project_id);
+			if (!project || project.user_id !== session.userId) {
+				throw new Error('Project not found or unauthorized');
+			}
+		}
+
+		const now = Date.now();
+		for (const conversation of conversations) {
+			await ctx.db.patch(conversation._id, {
+				...(patch.public !== undefined && { public: patch.public }),
+				...(patch.archived !== undefined && {
+					archived_at: patch.archived ? (conversation.archived_at ?? now) : undefined,
+				}),
+				...(patch.project_id !== undefined && { project_id: patch.project_id ?? undefined }),
+			});
+		}
+	},
+});
+
+/**
+ * Delete several conversations. Each one is deleted in its own transaction along with its
+ * messages, a single transaction could exceed the write limits for long conversations
+ */
+export const bulkRemove = mutation({
+	args: {
+		conversation_ids: v.array(v.id('conversations')),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversations = await getOwnedConversations(ctx, args.conversation_ids, session.userId);
+
+		for (const conversation of conversations) {
+			await ctx.scheduler.runAfter(0, internal.conversations.removeById, {
+				conversation_id: conversation._id,
+			});
+		}
+	},
+});
+
+export const removeById = internalMutation({
+	args: {
+		conversation_id: v.id('conversations'),
+	},
+	handler: async (ctx, args) => {
+		if (await ctx.db.get(args.conversation_id)) {
+			await ctx.db.delete(args.conversation_id);
+		}
+	},
+});
+
 export const getPublicById = query({
 	args: {
 		conversation_id: v.id('conversations'),
@@ -378,13 +925,20 @@ export const getPublicById = query({
 	},
 });
 
+/**
+ * Conversations whose title matches, best matches first. Messages are searched with
+ * `messages.search`
+ */
 export const search = query({
 	args: {
 		session_token: v.string(),
 		search_term: v.string(),
-		search_mode: v.optional(v.union(v.literal('exact'), v.literal('words'), v.literal('fuzzy'))),
+		/** Defaults to `words`, see `matchesSearchMode` */
+		search_mode: v.optional(searchModeValidator),
+		filters: v.optional(conversationFiltersValidator),
+		limit: v.optional(v.number()),
 	},
-	handler: async (ctx, args) => {
+	handler: async (ctx, args): Promise<Doc<'conversations'>[]> => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
 			session_token: args.session_token,
 		});
@@ -393,66 +947,65 @@ export const search = query({
 			throw new Error('Unauthorized');
 		}
 
-		type ConversationSearchResult = {
-			conversation: Doc<'conversations'>;
-			messages: Doc<'messages'>[];
-			score: number;
-			titleMatch: boolean;
-		};
-
 		if (!args.search_term.trim()) return [];
 
-		const searchMode = args.search_mode || 'words';
-		const results: ConversationSearchResult[] = [];
+		const filters = args.filters ?? {};
+		const limit = Math.min(args.limit ?? 5, 50);
 
-		// Get all conversations for the user
 		const conversations = await ctx.db
 			.query('conversations')
-			.withIndex('by_user', (q) => q.eq('user_id', session.userId))
-			.collect();
+			.withSearchIndex('search_title', (q) => {
+				const search = q.search('title', args.search_term).eq('user_id', session.userId);
+				return filters.project_id ? search.eq('project_id', filters.project_id) : search;
+			})
+			.take(50);
+
+		// The other filters and the archived state aren't part of the search index
+		return conversations
+			.filter(
+				(conversation) =>
+					matchesFilters(conversation, filters) &&
+					matchesSearchMode(conversation.title, args.search_term, args.search_mode ?? 'words')
+			)
+			.slice(0, limit);
+	},
+});
 
-		// Search through conversations and messages
-		for (const conversation of conversations) {
-			// Get messages for this conversation
-			const conversationMessages = await ctx.db
+/**
+ * Set `model_id` on conversations answered before it existed, they can't be filtered by model
+ * until then. Run once with `npx convex run conversations:backfillModelIds`
+ *
+ * Skips the triggers, which would bump `updated_at` and reorder the sidebar.
+ */
+export const backfillModelIds = rawInternalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const page = await ctx.db
+			.query('conversations')
+			.paginate({ cursor: args.cursor ?? null, numItems: 100 });
+
+		for (const conversation of page.page) {
+			if (conversation.model_id) continue;
+
+			const messages = ctx.db
 				.query('messages')
 				.withIndex('by_conversation', (q) => q.eq('conversation_id', conversation._id))
-				.collect();
-
-			// Search title
-			const titleResults = enhancedSearch({
-				needle: args.search_term,
-				haystack: [conversation],
-				property: 'title',
-				mode: searchMode,
-				minScore: 0.3,
-			});
+				.order('desc');
 
-			// Search messages
-			const messageResults = enhancedSearch({
-				needle: args.search_term,
-				haystack: conversationMessages,
-				property: 'content',
-				mode: searchMode,
-				minScore: 0.3,
-			});
+			for await (const message of messages) {
+				if (message.role !== 'assistant' || !message.model_id) continue;
 
-			// If we have matches in title or messages, add to results
-			if (titleResults.length > 0 || messageResults.length > 0) {
-				const titleScore = titleResults.length > 0 ? (titleResults[0]?.score ?? 0) : 0;
-				const messageScore =
-					messageResults.length > 0 ? Math.max(...messageResults.map((r) => r.score)) : 0;
-
-				results.push({
-					conversation,
-					messages: messageResults.map((r) => r.item),
-					score: Math.max(titleScore, messageScore),
-					titleMatch: titleResults.length > 0,
-				});
+				await ctx.db.patch(conversation._id, { model_id: message.model_id });
+				break;
 			}
 		}
 
-		// Sort by score (highest first)
-		return results.sort((a, b) => b.score - a.score);
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.conversations.backfillModelIds, {
+				cursor: page.continueCursor,
+			});
+		}
 	},
 });
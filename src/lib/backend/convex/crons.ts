@@ -0,0 +1,10 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+crons.interval('sweep stale generation jobs', { minutes: 1 }, internal.generation_jobs.sweep, {});
+crons.interval('delete unused uploads', { hours: 24 }, internal.storage.sweep, {});
+crons.interval('purge deleted accounts', { hours: 1 }, internal.account.sweepDeletions, {});
+
+export default crons;
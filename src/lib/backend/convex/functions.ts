@@ -7,10 +7,41 @@ import {
 
 import { customCtx, customMutation } from 'convex-helpers/server/customFunctions';
 import { Triggers } from 'convex-helpers/server/triggers';
-import { type Id, type DataModel } from './_generated/dataModel';
+import { type Id, type DataModel, type Doc } from './_generated/dataModel';
+import { type MutationCtx } from './_generated/server';
 
 const triggers = new Triggers<DataModel>();
 
+/**
+ * Creation time of the first recorded file reference, files uploaded before it may be used
+ * by messages that have no reference until `storage:backfillRefs` ran
+ */
+export async function getRefsTrackedSince(ctx: MutationCtx): Promise<number | undefined> {
+	return (await ctx.db.query('storage_refs').order('asc').first())?._creationTime;
+}
+
+/**
+ * Delete an uploaded file once no message refers to it anymore
+ */
+export async function deleteUnreferencedFile(ctx: MutationCtx, storageId: Id<'_storage'>) {
+	const ref = await ctx.db
+		.query('storage_refs')
+		.withIndex('by_storage_message', (q) => q.eq('storage_id', storageId))
+		.first();
+
+	if (ref) return;
+
+	// May have been deleted already, e.g. removed from the chat input before sending
+	const file = await ctx.db.system.get(storageId);
+	if (!file) return;
+
+	// Without a reference to compare with, the file could still be used by an untracked copy
+	const trackedSince = await getRefsTrackedSince(ctx);
+	if (trackedSince === undefined || file._creationTime < trackedSince) return;
+
+	await ctx.storage.delete(storageId);
+}
+
 // Cascade delete messages when a conversation is deleted
 triggers.register('conversations', async (ctx, change) => {
 	if (change.operation === 'delete') {
@@ -21,6 +52,75 @@ triggers.register('conversations', async (ctx, change) => {
 		for await (const message of query) {
 			await ctx.db.delete(message._id);
 		}
+
+		const jobs = ctx.db
+			.query('generation_jobs')
+			.withIndex('by_conversation_status', (q) => q.eq('conversation_id', change.id));
+
+		for await (const job of jobs) {
+			await ctx.db.delete(job._id);
+		}
+	}
+});
+
+// Mirror the tags of conversations into `conversation_tags`, arrays can't be indexed
+triggers.register('conversations', async (ctx, change) => {
+	const before = new Set(change.oldDoc?.tags ?? []);
+	const after = new Set(change.newDoc?.tags ?? []);
+
+	for (const tag of after) {
+		if (before.has(tag)) continue;
+
+		await ctx.db.insert('conversation_tags', {
+			user_id: change.newDoc!.user_id,
+			conversation_id: change.id,
+			tag,
+		});
+	}
+
+	if ([...before].every((tag) => after.has(tag))) return;
+
+	const rows = await ctx.db
+		.query('conversation_tags')
+		.withIndex('by_conversation', (q) => q.eq('conversation_id', change.id))
+		.collect();
+
+	for (const row of rows) {
+		if (!after.has(row.tag)) await ctx.db.delete(row._id);
+	}
+});
+
+// Conversations outlive their project, they go back to the main list
+triggers.register('projects', async (ctx, change) => {
+	if (change.operation !== 'delete') return;
+
+	const conversations = await ctx.db
+		.query('conversations')
+		.withIndex('by_user_project', (q) =>
+			q.eq('user_id', change.oldDoc.user_id).eq('project_id', change.id)
+		)
+		.collect();
+
+	for (const conversation of conversations) {
+		await ctx.db.patch(conversation._id, { project_id: undefined });
+	}
+});
+
+// Stop attaching deleted rules to projects
+triggers.register('user_rules', async (ctx, change) => {
+	if (change.operation !== 'delete') return;
+
+	const projects = await ctx.db
+		.query('projects')
+		.withIndex('by_user', (q) => q.eq('user_id', change.oldDoc.user_id))
+		.collect();
+
+	for (const project of projects) {
+		if (!project.rule_ids.includes(change.id)) continue;
+
+		await ctx.db.patch(project._id, {
+			rule_ids: project.rule_ids.filter((id) => id !== change.id),
+		});
 	}
 });
 
@@ -34,11 +134,63 @@ triggers.register('messages', async (ctx, change) => {
 
 		await ctx.db.patch(conversationId as Id<'conversations'>, {
 			updated_at: Date.now(),
+			// Lets conversations be filtered by model
+			...(change.newDoc.role === 'assistant' && change.newDoc.model_id
+				? { model_id: change.newDoc.model_id }
+				: {}),
 		});
 	}
 });
 
-// TODO: Cascade delete rules when a user is deleted
+function attachedStorageIds(message: Doc<'messages'> | null) {
+	return new Set(message?.attachments?.map((a) => a.storage_id as Id<'_storage'>) ?? []);
+}
+
+// Track which messages use an uploaded file and delete the file with its last reference,
+// branches and edits copy attachments so a file can be shared by several messages
+triggers.register('messages', async (ctx, change) => {
+	const before = attachedStorageIds(change.oldDoc);
+	const after = attachedStorageIds(change.newDoc);
+
+	const added = [...after].filter((id) => !before.has(id));
+	const removed = [...before].filter((id) => !after.has(id));
+
+	for (const storageId of added) {
+		await ctx.db.insert('storage_refs', { storage_id: storageId, message_id: change.id });
+	}
+
+	for (const storageId of removed) {
+		const refs = await ctx.db
+			.query('storage_refs')
+			.withIndex('by_storage_message', (q) =>
+				q.eq('storage_id', storageId).eq('message_id', change.id)
+			)
+			.collect();
+
+		for (const ref of refs) {
+			await ctx.db.delete(ref._id);
+		}
+
+		await deleteUnreferencedFile(ctx, storageId);
+	}
+});
+
+// Drop the search vectors of deleted messages
+triggers.register('messages', async (ctx, change) => {
+	if (change.operation !== 'delete') return;
+
+	const embeddings = await ctx.db
+		.query('message_embeddings')
+		.withIndex('by_message', (q) => q.eq('message_id', change.id))
+		.collect();
+
+	for (const embedding of embeddings) {
+		await ctx.db.delete(embedding._id);
+	}
+});
+
+// Deleting a user cascades through `account.purge`, the auth tables aren't part of the schema
+// so there is no user table to register a trigger on
 
 // create wrappers that replace the built-in `mutation` and `internalMutation`
 // the wrappers override `ctx` so that `ctx.db.insert`, `ctx.db.patch`, etc. run registered trigger functions
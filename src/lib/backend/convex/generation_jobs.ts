@@ -0,0 +1,239 @@
+import { v } from 'convex/values';
+import { STALE_JOB_MS } from '../../types';
+import { internal } from './_generated/api';
+import { type Doc, type Id } from './_generated/dataModel';
+import { type MutationCtx } from './_generated/server';
+import { internalMutation, mutation } from './functions';
+import { type GenerationJobStatus } from './schema';
+
+/** How long finished jobs are kept around */
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const INTERRUPTED_ERROR = 'Generation was interrupted, please try again';
+
+async function getOwnedConversation(
+	ctx: MutationCtx,
+	args: { session_token: string; conversation_id: Id<'conversations'> }
+) {
+	const session = await ctx.runQuery(internal.betterAuth.getSession, {
+		sessionToken: args.session_token,
+	});
+
+	if (!session) throw new Error('Invalid session token');
+
+	const conversation = await ctx.db.get(args.conversation_id);
+	if (!conversation || conversation.user_id !== session.userId) {
+		throw new Error('Conversation not found or unauthorized');
+	}
+
+	return conversation;
+}
+
+async function getOwnedJob(
+	ctx: MutationCtx,
+	args: { session_token: string; job_id: Id<'generation_jobs'> }
+) {
+	const session = await ctx.runQuery(internal.betterAuth.getSession, {
+		sessionToken: args.session_token,
+	});
+
+	if (!session) throw new Error('Invalid session token');
+
+	const job = await ctx.db.get(args.job_id);
+	if (!job || job.user_id !== session.userId) {
+		throw new Error('Generation job not found or unauthorized');
+	}
+
+	return job;
+}
+
+function getRunningJobs(ctx: MutationCtx, conversationId: Id<'conversations'>) {
+	return ctx.db
+		.query('generation_jobs')
+		.withIndex('by_conversation_status', (q) =>
+			q.eq('conversation_id', conversationId).eq('status', 'running')
+		)
+		.collect();
+}
+
+/**
+ * Record a new generation for the conversation, with one job per model answering so each
+ * job tracks its own message. Returns the jobs in the order of `model_ids`.
+ *
+ * Any job still running for the conversation is asked to stop so two instances never
+ * write to the same conversation.
+ */
+export const start = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		model_ids: v.array(v.string()),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Id<'generation_jobs'>[]> => {
+		const conversation = await getOwnedConversation(ctx, args);
+
+		for (const job of await getRunningJobs(ctx, conversation._id)) {
+			await ctx.db.patch(job._id, { cancel_requested: true });
+		}
+
+		const now = Date.now();
+		const jobIds: Id<'generation_jobs'>[] = [];
+
+		for (const modelId of args.model_ids) {
+			jobIds.push(
+				await ctx.db.insert('generation_jobs', {
+					user_id: conversation.user_id,
+					conversation_id: conversation._id,
+					model_id: modelId,
+					status: 'running',
+					cancel_requested: false,
+					started_at: now,
+					heartbeat_at: now,
+				})
+			);
+		}
+
+		return jobIds;
+	},
+});
+
+/**
+ * Keep the job alive, returns whether it should stop
+ */
+export const heartbeat = mutation({
+	args: {
+		job_id: v.id('generation_jobs'),
+		message_id: v.optional(v.id('messages')),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<{ cancel_requested: boolean }> => {
+		const job = await getOwnedJob(ctx, args);
+
+		// The sweeper already gave up on this job, the result would be thrown away
+		if (job.status !== 'running') return { cancel_requested: true };
+
+		await ctx.db.patch(job._id, {
+			heartbeat_at: Date.now(),
+			...(args.message_id && { message_id: args.message_id }),
+		});
+
+		return { cancel_requested: job.cancel_requested };
+	},
+});
+
+/**
+ * Mark the job as done, the outcome is read from the job and its message
+ */
+export const finish = mutation({
+	args: {
+		job_id: v.id('generation_jobs'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const job = await getOwnedJob(ctx, args);
+		if (job.status !== 'running') return;
+
+		const message = job.message_id ? await ctx.db.get(job.message_id) : null;
+
+		let status: GenerationJobStatus = 'completed';
+		if (job.cancel_requested) status = 'cancelled';
+		else if (message?.error) status = 'failed';
+
+		await ctx.db.patch(job._id, {
+			status,
+			error: status === 'failed' ? message?.error : undefined,
+			finished_at: Date.now(),
+		});
+	},
+});
+
+/**
+ * Ask whichever instance runs the conversation's generation to stop.
+ *
+ * The conversation stops showing as generating right away, the job itself notices on its
+ * next heartbeat.
+ */
+export const cancel = mutation({
+	args: {
+		conversation_id: v.id('conversations'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<boolean> => {
+		const conversation = await getOwnedConversation(ctx, args);
+		const jobs = await getRunningJobs(ctx, conversation._id);
+
+		for (const job of jobs) {
+			await ctx.db.patch(job._id, { cancel_requested: true });
+		}
+
+		await ctx.db.patch(conversation._id, { generating: false, updated_at: Date.now() });
+
+		return jobs.length > 0;
+	},
+});
+
+async function failStaleJob(ctx: MutationCtx, job: Doc<'generation_jobs'>) {
+	const now = Date.now();
+
+	await ctx.db.patch(job._id, {
+		status: job.cancel_requested ? 'cancelled' : 'failed',
+		error: job.cancel_requested ? undefined : INTERRUPTED_ERROR,
+		finished_at: now,
+	});
+
+	const conversation = await ctx.db.get(job.conversation_id);
+	if (conversation?.generating) {
+		const running = await getRunningJobs(ctx, conversation._id);
+
+		// A newer generation may have taken over the conversation
+		if (running.length === 0) {
+			await ctx.db.patch(conversation._id, { generating: false, updated_at: now });
+		}
+	}
+
+	const message = job.message_id ? await ctx.db.get(job.message_id) : null;
+
+	// Whatever was streamed before the last checkpoint is kept, only empty messages get the error
+	if (message && !message.error && !message.content_html && message.content.length === 0) {
+		await ctx.db.patch(message._id, {
+			error: job.cancel_requested ? undefined : INTERRUPTED_ERROR,
+		});
+	}
+}
+
+/**
+ * Fail jobs whose instance stopped sending heartbeats and clean up old finished jobs
+ */
+export const sweep = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const now = Date.now();
+
+		const stale = await ctx.db
+			.query('generation_jobs')
+			.withIndex('by_status_heartbeat', (q) =>
+				q.eq('status', 'running').lt('heartbeat_at', now - STALE_JOB_MS)
+			)
+			.collect();
+
+		for (const job of stale) {
+			await failStaleJob(ctx, job);
+		}
+
+		const finishedStatuses: GenerationJobStatus[] = ['completed', 'failed', 'cancelled'];
+		for (const status of finishedStatuses) {
+			const expired = await ctx.db
+				.query('generation_jobs')
+				.withIndex('by_status_heartbeat', (q) =>
+					q.eq('status', status).lt('heartbeat_at', now - JOB_RETENTION_MS)
+				)
+				.take(500);
+
+			for (const job of expired) {
+				await ctx.db.delete(job._id);
+			}
+		}
+
+		return { failed: stale.length };
+	},
+});
@@ -0,0 +1,142 @@
+import { v } from 'convex/values';
+import { EMBEDDING_DIMENSIONS } from '../../types';
+import { searchSnippet } from '../../utils/search-snippet';
+import { api, internal } from './_generated/api';
+import { type Id } from './_generated/dataModel';
+import { action, internalQuery } from './_generated/server';
+import { type SessionObj } from './betterAuth';
+import { mutation } from './functions';
+import { type MessageSearchResult } from './messages';
+
+export type SemanticSearchResult = MessageSearchResult & { score: number };
+
+function scopeOf(userId: string, model: string) {
+	return `${userId}:${model}`;
+}
+
+/**
+ * Save the vectors of the user's messages, replacing the ones of the same model
+ */
+export const store = mutation({
+	args: {
+		session_token: v.string(),
+		model: v.string(),
+		embeddings: v.array(
+			v.object({
+				message_id: v.id('messages'),
+				embedding: v.array(v.float64()),
+			})
+		),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const s = session as SessionObj;
+
+		for (const { message_id, embedding } of args.embeddings) {
+			if (embedding.length !== EMBEDDING_DIMENSIONS) {
+				throw new Error(`Embeddings must have ${EMBEDDING_DIMENSIONS} dimensions`);
+			}
+
+			const message = await ctx.db.get(message_id);
+			if (!message) continue;
+
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			if (!conversation || conversation.user_id !== s.userId) {
+				throw new Error('Unauthorized');
+			}
+
+			const existing = await ctx.db
+				.query('message_embeddings')
+				.withIndex('by_message', (q) => q.eq('message_id', message_id))
+				.collect();
+
+			for (const doc of existing) {
+				if (doc.model === args.model) await ctx.db.delete(doc._id);
+			}
+
+			await ctx.db.insert('message_embeddings', {
+				message_id,
+				scope: scopeOf(s.userId, args.model),
+				model: args.model,
+				embedding,
+			});
+		}
+	},
+});
+
+export const getResults = internalQuery({
+	args: {
+		matches: v.array(v.object({ id: v.id('message_embeddings'), score: v.number() })),
+		include_archived: v.optional(v.boolean()),
+	},
+	handler: async (ctx, args): Promise<SemanticSearchResult[]> => {
+		const results: SemanticSearchResult[] = [];
+
+		for (const match of args.matches) {
+			const doc = await ctx.db.get(match.id);
+			const message = doc && (await ctx.db.get(doc.message_id));
+			if (!message) continue;
+
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			if (!conversation) continue;
+			if (conversation.archived_at !== undefined && !args.include_archived) continue;
+
+			results.push({
+				_id: message._id,
+				_creationTime: message._creationTime,
+				conversation_id: conversation._id,
+				conversation_title: conversation.title,
+				role: message.role,
+				model_id: message.model_id,
+				// Nothing to highlight, the words may not appear at all
+				snippet: searchSnippet(message.content, ''),
+				score: match.score,
+			});
+		}
+
+		return results;
+	},
+});
+
+/**
+ * Messages closest in meaning to the embedded search term, most similar first
+ */
+export const search = action({
+	args: {
+		session_token: v.string(),
+		model: v.string(),
+		embedding: v.array(v.float64()),
+		limit: v.optional(v.number()),
+		include_archived: v.optional(v.boolean()),
+	},
+	handler: async (ctx, args): Promise<SemanticSearchResult[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const s = session as SessionObj;
+		const scope = scopeOf(s.userId, args.model);
+
+		const matches = await ctx.vectorSearch('message_embeddings', 'by_embedding', {
+			vector: args.embedding,
+			limit: Math.min(args.limit ?? 20, 256),
+			filter: (q) => q.eq('scope', scope),
+		});
+
+		return await ctx.runQuery(internal.message_embeddings.getResults, {
+			matches: matches.map((match) => ({ id: match._id, score: match._score })),
+			include_archived: args.include_archived,
+		});
+	},
+});
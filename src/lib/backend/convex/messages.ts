@@ -1,36 +1,356 @@
-import { v } from 'convex/values';
-import { api } from './_generated/api';
-import { type Id } from './_generated/dataModel';
-import { query } from './_generated/server';
-import { messageRoleValidator, providerValidator, reasoningEffortValidator } from './schema';
+import { paginationOptsValidator, type PaginationResult } from 'convex/server';
+import { type Infer, v } from 'convex/values';
+import { api, internal } from './_generated/api';
+import { type Doc, type Id } from './_generated/dataModel';
+import {
+	// eslint-disable-next-line no-restricted-imports -- see `backfillUserIds`
+	internalMutation as rawInternalMutation,
+	query,
+	type QueryCtx,
+} from './_generated/server';
+import {
+	messageRoleValidator,
+	providerValidator,
+	reasoningEffortValidator,
+	toolCallValidator,
+} from './schema';
 import { mutation } from './functions';
+import { filterConversations } from './conversations';
+import { recordUsage } from './usage';
+import { MessageTree } from '../../utils/message-tree';
+import { matchesSearchMode, searchSnippet, type SnippetPart } from '../../utils/search-snippet';
+
+export type PathMessage = Doc<'messages'> & {
+	/** This message and its alternative versions, oldest first */
+	siblings: Id<'messages'>[];
+};
+
+export async function getConversationTree(ctx: { db: QueryCtx['db'] }, conversationId: string) {
+	const messages = await ctx.db
+		.query('messages')
+		.withIndex('by_conversation', (q) => q.eq('conversation_id', conversationId))
+		.collect();
+
+	return new MessageTree(messages);
+}
+
+/**
+ * The messages of the branch being shown, with their siblings for navigation
+ */
+export function getActivePath(
+	tree: MessageTree<Doc<'messages'>>,
+	conversation: Doc<'conversations'>
+): PathMessage[] {
+	return tree.activePath(conversation.active_leaf_id).map((message) => ({
+		...message,
+		siblings: tree.siblingsOf(message._id).map((sibling) => sibling._id),
+	}));
+}
 
 export const getAllFromConversation = query({
 	args: {
 		conversation_id: v.string(),
 		session_token: v.string(),
 	},
-	handler: async (ctx, args) => {
+	handler: async (ctx, args): Promise<PathMessage[]> => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
 			session_token: args.session_token,
 		});
 
 		if (!session) throw new Error('Unauthorized');
 
-		const [messages, conversation] = await Promise.all([
-			ctx.db
-				.query('messages')
-				.withIndex('by_conversation', (q) => q.eq('conversation_id', args.conversation_id))
-				.order('asc')
-				.collect(),
+		const [tree, conversation] = await Promise.all([
+			getConversationTree(ctx, args.conversation_id),
 			ctx.db.get(args.conversation_id as Id<'conversations'>),
 		]);
 
-		if (!conversation?.public && conversation?.user_id !== session.userId) {
+		if (!conversation || (!conversation.public && conversation.user_id !== session.userId)) {
+			throw new Error('Unauthorized');
+		}
+
+		return getActivePath(tree, conversation);
+	},
+});
+
+/**
+ * The parent of a message as `MessageTree` places it, messages saved before conversations
+ * could branch hang below the one created right before them. A parent that no longer exists
+ * makes the message a root
+ */
+async function getTreeParent(
+	ctx: QueryCtx,
+	message: Doc<'messages'>
+): Promise<Doc<'messages'> | null> {
+	if (message.version === undefined) {
+		return await ctx.db
+			.query('messages')
+			.withIndex('by_conversation', (q) =>
+				q.eq('conversation_id', message.conversation_id).lt('_creationTime', message._creationTime)
+			)
+			.order('desc')
+			.first();
+	}
+
+	if (!message.parent_id) return null;
+	const parent = await ctx.db.get(message.parent_id);
+	return parent?.conversation_id === message.conversation_id ? parent : null;
+}
+
+/** The children of a message as `MessageTree` places them, or its roots when `null` */
+async function getTreeChildren(
+	ctx: QueryCtx,
+	conversationId: string,
+	parent: Doc<'messages'> | null
+): Promise<Doc<'messages'>[]> {
+	const children = await ctx.db
+		.query('messages')
+		.withIndex('by_conversation_parent', (q) =>
+			q.eq('conversation_id', conversationId).eq('parent_id', parent?._id)
+		)
+		.collect();
+
+	const next = await ctx.db
+		.query('messages')
+		.withIndex('by_conversation', (q) =>
+			parent
+				? q.eq('conversation_id', conversationId).gt('_creationTime', parent._creationTime)
+				: q.eq('conversation_id', conversationId)
+		)
+		.first();
+
+	return [
+		...children.filter((child) => child.version !== undefined),
+		...(next && next.version === undefined ? [next] : []),
+	].sort((a, b) => a._creationTime - b._creationTime);
+}
+
+/**
+ * The branch being shown, newest first, for long conversations loaded a page at a time. Pages
+ * are found by walking up from the leaf so only their messages and siblings are read, the
+ * cursor is the message a page starts from.
+ *
+ * Fails with `InvalidCursor` when the cursors left the branch, e.g. after switching to
+ * another version of an older message, so the client starts over.
+ */
+export const getRecentFromConversation = query({
+	args: {
+		conversation_id: v.string(),
+		session_token: v.string(),
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args): Promise<PaginationResult<PathMessage>> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id as Id<'conversations'>);
+
+		if (!conversation || (!conversation.public && conversation.user_id !== session.userId)) {
+			throw new Error('Unauthorized');
+		}
+
+		const { cursor, endCursor } = args.paginationOpts;
+		const numItems = Math.max(1, Math.floor(args.paginationOpts.numItems));
+
+		const getMessage = async (id: string) => {
+			const message = await ctx.db.get(id as Id<'messages'>);
+			if (message?.conversation_id !== conversation._id) {
+				throw new Error(`InvalidCursor: ${id} is not a message of the conversation`);
+			}
+			return message;
+		};
+
+		const getLeaf = async () => {
+			const leaf = conversation.active_leaf_id && (await ctx.db.get(conversation.active_leaf_id));
+			if (leaf && leaf.conversation_id === conversation._id) return leaf;
+
+			// The newest child all the way down from the newest root, like `MessageTree.activePath`
+			let latest: Doc<'messages'> | null = null;
+			for (;;) {
+				const newest = (await getTreeChildren(ctx, conversation._id, latest)).at(-1);
+				if (!newest) return latest;
+				latest = newest;
+			}
+		};
+
+		let current: Doc<'messages'> | null = cursor ? await getMessage(cursor) : await getLeaf();
+		const end = endCursor ? await getMessage(endCursor) : null;
+
+		const page: PathMessage[] = [];
+		while (current && (end ? current._id !== end._id : page.length < numItems)) {
+			// Parents are older than their children, so the end can't be further up
+			if (end && current._creationTime < end._creationTime) {
+				throw new Error(`InvalidCursor: ${end._id} left the branch being shown`);
+			}
+
+			const parent = await getTreeParent(ctx, current);
+			const siblings = await getTreeChildren(ctx, conversation._id, parent);
+
+			page.push({ ...current, siblings: siblings.map((sibling) => sibling._id) });
+			current = parent;
+		}
+
+		if (end && !current) throw new Error(`InvalidCursor: ${end._id} left the branch being shown`);
+
+		return {
+			page,
+			isDone: current === null,
+			continueCursor: current?._id ?? '',
+		};
+	},
+});
+
+/**
+ * Every message of a conversation, including the versions that aren't being shown
+ */
+export const getAllVersionsFromConversation = query({
+	args: {
+		conversation_id: v.id('conversations'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'messages'>[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		return await ctx.db
+			.query('messages')
+			.withIndex('by_conversation', (q) => q.eq('conversation_id', args.conversation_id))
+			.collect();
+	},
+});
+
+/**
+ * Show another version of a message, along with the most recent branch below it
+ */
+export const switchVersion = mutation({
+	args: {
+		message_id: v.id('messages'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) throw new Error('Message not found');
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		if (conversation.generating) throw new Error('Conversation is already generating');
+
+		const tree = await getConversationTree(ctx, conversation._id);
+		const leaf = tree.latestLeaf(message._id);
+
+		await ctx.db.patch(conversation._id, { active_leaf_id: leaf?._id ?? message._id });
+	},
+});
+
+/**
+ * Rewind the conversation to the message an assistant reply answers, so the next reply is
+ * added as another version of it
+ */
+export const regenerate = mutation({
+	args: {
+		message_id: v.id('messages'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) throw new Error('Message not found');
+		if (message.role !== 'assistant') {
+			throw new Error('Only assistant messages can be regenerated');
+		}
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
 			throw new Error('Unauthorized');
 		}
 
-		return messages;
+		if (conversation.generating) throw new Error('Conversation is already generating');
+
+		const tree = await getConversationTree(ctx, conversation._id);
+		const parent = tree.parentOf(message._id);
+		if (!parent) throw new Error('Message has nothing to reply to');
+
+		await ctx.db.patch(conversation._id, { active_leaf_id: parent._id });
+	},
+});
+
+/**
+ * Save a new version of a user message next to the original, the messages that followed
+ * the original stay on its branch
+ */
+export const edit = mutation({
+	args: {
+		message_id: v.id('messages'),
+		content: v.string(),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Id<'messages'>> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) throw new Error('Message not found');
+		if (message.role !== 'user') throw new Error('Only user messages can be edited');
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		if (conversation.generating) throw new Error('Conversation is already generating');
+
+		const tree = await getConversationTree(ctx, conversation._id);
+		const parent = tree.parentOf(message._id);
+
+		// Attachments and settings carry over, only the text changes
+		const id = await ctx.db.insert('messages', {
+			conversation_id: message.conversation_id,
+			user_id: conversation.user_id,
+			role: 'user',
+			content: args.content,
+			parent_id: parent?._id,
+			version: tree.siblingsOf(message._id).length,
+			model_id: message.model_id,
+			provider: message.provider,
+			web_search_enabled: message.web_search_enabled,
+			reasoning_effort: message.reasoning_effort,
+			attachments: message.attachments,
+		});
+
+		await ctx.db.patch(conversation._id, {
+			generating: true,
+			active_leaf_id: id,
+			updated_at: Date.now(),
+		});
+
+		return id;
 	},
 });
 
@@ -41,6 +361,11 @@ export const create = mutation({
 		content_html: v.optional(v.string()),
 		role: messageRoleValidator,
 		session_token: v.string(),
+		/**
+		 * Reply to this message instead of continuing the branch being shown, which stays as
+		 * it is. Used for the answers of a model comparison
+		 */
+		parent_id: v.optional(v.id('messages')),
 
 		// Optional, coming from SK API route
 		model_id: v.optional(v.string()),
@@ -52,7 +377,12 @@ export const create = mutation({
 		attachments: v.optional(
 			v.array(
 				v.object({
-					type: v.union(v.literal('image'), v.literal('video'), v.literal('audio'), v.literal('document')),
+					type: v.union(
+						v.literal('image'),
+						v.literal('video'),
+						v.literal('audio'),
+						v.literal('document')
+					),
 					url: v.string(),
 					storage_id: v.string(),
 					fileName: v.string(),
@@ -72,46 +402,145 @@ export const create = mutation({
 		}
 
 		const conversation = await ctx.db.get(args.conversation_id as Id<'conversations'>);
-		if (conversation?.user_id !== session.userId) throw new Error('Unauthorized');
-
-		// I think this just slows us down
-
-		// const messages = await ctx.runQuery(api.messages.getAllFromConversation, {
-		// 	conversation_id: args.conversation_id,
-		// 	session_token: args.session_token,
-		// });
-
-		// const lastMessage = messages[messages.length - 1];
-
-		// if (lastMessage?.role === args.role) {
-		// 	throw new Error('Last message has the same role, forbidden');
-		// }
-
-		const [id] = await Promise.all([
-			ctx.db.insert('messages', {
-				conversation_id: args.conversation_id,
-				content: args.content,
-				content_html: args.content_html,
-				role: args.role,
-				// Optional, coming from SK API route
-				model_id: args.model_id,
-				provider: args.provider,
-				token_count: args.token_count,
-				web_search_enabled: args.web_search_enabled,
-				reasoning_effort: args.reasoning_effort,
-				// Optional attachments
-				attachments: args.attachments,
-			}),
-			ctx.db.patch(args.conversation_id as Id<'conversations'>, {
-				generating: true,
-				updated_at: Date.now(),
-			}),
-		]);
+		if (!conversation || conversation.user_id !== session.userId) throw new Error('Unauthorized');
+
+		// New messages continue the branch being shown
+		const tree = await getConversationTree(ctx, conversation._id);
+		const parent = args.parent_id
+			? tree.get(args.parent_id)
+			: tree.activePath(conversation.active_leaf_id).at(-1);
+
+		if (args.parent_id && !parent) throw new Error('Message not found');
+		if (!args.parent_id && parent?.compare_model_ids) {
+			throw new Error('Pick one of the compared answers first');
+		}
+
+		const id = await ctx.db.insert('messages', {
+			conversation_id: args.conversation_id,
+			user_id: conversation.user_id,
+			content: args.content,
+			content_html: args.content_html,
+			role: args.role,
+			parent_id: parent?._id,
+			version: tree.childrenOf(parent?._id ?? null).length,
+			// Optional, coming from SK API route
+			model_id: args.model_id,
+			provider: args.provider,
+			token_count: args.token_count,
+			web_search_enabled: args.web_search_enabled,
+			reasoning_effort: args.reasoning_effort,
+			// Optional attachments
+			attachments: args.attachments,
+		});
+
+		await ctx.db.patch(conversation._id, {
+			generating: true,
+			active_leaf_id: args.parent_id ? conversation.active_leaf_id : id,
+			updated_at: Date.now(),
+		});
 
 		return id;
 	},
 });
 
+/**
+ * Mark a user message as answered by several models side by side, the conversation stays on
+ * the message until one of the answers is adopted
+ */
+export const compare = mutation({
+	args: {
+		message_id: v.id('messages'),
+		model_ids: v.array(v.string()),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) throw new Error('Message not found');
+		if (message.role !== 'user') throw new Error('Only user messages can be compared');
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		await ctx.db.patch(message._id, { compare_model_ids: args.model_ids });
+	},
+});
+
+export const getComparison = query({
+	args: {
+		message_id: v.id('messages'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) return null;
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		const tree = await getConversationTree(ctx, conversation._id);
+
+		return {
+			model_ids: message.compare_model_ids ?? [],
+			answers: tree.childrenOf(message._id).filter((m) => m.role === 'assistant'),
+		};
+	},
+});
+
+/**
+ * Continue the conversation from one of the compared answers, the others stay available as
+ * its versions
+ */
+export const adopt = mutation({
+	args: {
+		message_id: v.id('messages'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const message = await ctx.db.get(args.message_id);
+		if (!message) throw new Error('Message not found');
+
+		const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		if (conversation.generating) throw new Error('Conversation is already generating');
+
+		const tree = await getConversationTree(ctx, conversation._id);
+		const parent = tree.parentOf(message._id);
+		if (!parent?.compare_model_ids) throw new Error('Message is not part of a comparison');
+
+		await Promise.all([
+			ctx.db.patch(parent._id, { compare_model_ids: undefined }),
+			ctx.db.patch(conversation._id, {
+				active_leaf_id: tree.latestLeaf(message._id)?._id ?? message._id,
+			}),
+		]);
+	},
+});
+
 export const updateContent = mutation({
 	args: {
 		session_token: v.string(),
@@ -122,6 +551,7 @@ export const updateContent = mutation({
 		generation_id: v.optional(v.string()),
 		reasoning_effort: v.optional(reasoningEffortValidator),
 		annotations: v.optional(v.array(v.record(v.string(), v.any()))),
+		tool_calls: v.optional(v.array(toolCallValidator)),
 	},
 	handler: async (ctx, args) => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
@@ -145,6 +575,7 @@ export const updateContent = mutation({
 			generation_id: args.generation_id,
 			annotations: args.annotations,
 			reasoning_effort: args.reasoning_effort,
+			tool_calls: args.tool_calls,
 		});
 	},
 });
@@ -154,9 +585,13 @@ export const updateMessage = mutation({
 		session_token: v.string(),
 		message_id: v.string(),
 		token_count: v.optional(v.number()),
+		input_tokens: v.optional(v.number()),
+		output_tokens: v.optional(v.number()),
+		reasoning_tokens: v.optional(v.number()),
 		cost_usd: v.optional(v.number()),
 		generation_id: v.optional(v.string()),
 		content_html: v.optional(v.string()),
+		latency_ms: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
@@ -173,11 +608,21 @@ export const updateMessage = mutation({
 			throw new Error('Message not found');
 		}
 
+		const hasUsage = args.cost_usd !== undefined || args.token_count !== undefined;
+		if (message.role === 'assistant' && hasUsage) {
+			await recordUsage(ctx, message, session.userId, args);
+		}
+
 		await ctx.db.patch(message._id, {
+			...(message.role === 'assistant' && hasUsage && { usage_recorded: true }),
 			token_count: args.token_count,
+			input_tokens: args.input_tokens,
+			output_tokens: args.output_tokens,
+			reasoning_tokens: args.reasoning_tokens,
 			cost_usd: args.cost_usd,
 			generation_id: args.generation_id,
 			content_html: args.content_html,
+			latency_ms: args.latency_ms,
 		});
 	},
 });
@@ -194,13 +639,9 @@ export const getByConversationPublic = query({
 			return null;
 		}
 
-		const messages = await ctx.db
-			.query('messages')
-			.withIndex('by_conversation', (q) => q.eq('conversation_id', args.conversation_id))
-			.order('asc')
-			.collect();
-
-		return messages;
+		// Shared conversations only show the current branch, without version navigation
+		const tree = await getConversationTree(ctx, conversation._id);
+		return tree.activePath(conversation.active_leaf_id);
 	},
 });
 
@@ -211,6 +652,8 @@ export const updateError = mutation({
 		message_id: v.optional(v.string()),
 		conversation_id: v.string(),
 		error: v.optional(v.string()),
+		// set while other answers are still being generated, e.g. when comparing models
+		keep_generating: v.optional(v.boolean()),
 	},
 	handler: async (ctx, args) => {
 		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
@@ -230,9 +673,226 @@ export const updateError = mutation({
 
 			// reset loading state
 			ctx.db.patch(args.conversation_id as Id<'conversations'>, {
-				generating: false,
+				...(!args.keep_generating && { generating: false }),
 				updated_at: Date.now(),
 			}),
 		]);
 	},
 });
+
+export const searchFiltersValidator = v.object({
+	/** Creation time range, inclusive */
+	from: v.optional(v.number()),
+	to: v.optional(v.number()),
+	model_id: v.optional(v.string()),
+	role: v.optional(messageRoleValidator),
+	has_attachments: v.optional(v.boolean()),
+	// Filters on the conversation of the message
+	project_id: v.optional(v.id('projects')),
+	tag: v.optional(v.string()),
+	public: v.optional(v.boolean()),
+	include_archived: v.optional(v.boolean()),
+});
+
+export type SearchFilters = Infer<typeof searchFiltersValidator>;
+
+export const searchModeValidator = v.union(
+	v.literal('exact'),
+	v.literal('words'),
+	v.literal('fuzzy')
+);
+
+export type MessageSearchResult = {
+	_id: Id<'messages'>;
+	_creationTime: number;
+	conversation_id: Id<'conversations'>;
+	conversation_title: string;
+	role: Doc<'messages'>['role'];
+	model_id?: string;
+	snippet: SnippetPart[];
+};
+
+/**
+ * Full text search over the user's messages, best matches first
+ */
+export const search = query({
+	args: {
+		session_token: v.string(),
+		search_term: v.string(),
+		/** Defaults to `words`, see `matchesSearchMode` */
+		search_mode: v.optional(searchModeValidator),
+		filters: v.optional(searchFiltersValidator),
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args): Promise<PaginationResult<MessageSearchResult>> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		if (!args.search_term.trim()) {
+			return { page: [], isDone: true, continueCursor: '' };
+		}
+
+		const filters = args.filters ?? {};
+		let results = ctx.db.query('messages').withSearchIndex('search_content', (q) => {
+			let search = q.search('content', args.search_term).eq('user_id', session.userId);
+			if (filters.role) search = search.eq('role', filters.role);
+			if (filters.model_id) search = search.eq('model_id', filters.model_id);
+			return search;
+		});
+
+		// Not part of the search index, checked on the matches
+		if (filters.from !== undefined) {
+			const from = filters.from;
+			results = results.filter((q) => q.gte(q.field('_creationTime'), from));
+		}
+		if (filters.to !== undefined) {
+			const to = filters.to;
+			results = results.filter((q) => q.lte(q.field('_creationTime'), to));
+		}
+		// Narrowed down to the conversations matching their filters, checked on each page since
+		// a filter over every conversation id would grow with the account
+		let allowed: Set<string> | undefined;
+		let excluded: Set<string> | undefined;
+		if (
+			filters.project_id !== undefined ||
+			filters.tag !== undefined ||
+			filters.public !== undefined
+		) {
+			const conversations = await filterConversations(ctx, session.userId, {
+				project_id: filters.project_id,
+				tag: filters.tag,
+				public: filters.public,
+				include_archived: filters.include_archived,
+			});
+
+			if (conversations.length === 0) {
+				return { page: [], isDone: true, continueCursor: '' };
+			}
+
+			allowed = new Set(conversations.map((c) => c._id));
+		} else if (!filters.include_archived) {
+			const archived = await ctx.db
+				.query('conversations')
+				.withIndex('by_user_archived', (q) => q.eq('user_id', session.userId).gte('archived_at', 0))
+				.collect();
+
+			excluded = new Set(archived.map((c) => c._id));
+		}
+
+		const page = await results.paginate(args.paginationOpts);
+
+		// Pages can come back shorter than asked for, the index can't tell how words are placed,
+		// which conversations are allowed or whether the attachments are empty
+		const matches = page.page.filter(
+			(message) =>
+				(!allowed || allowed.has(message.conversation_id)) &&
+				!excluded?.has(message.conversation_id) &&
+				(filters.has_attachments === undefined ||
+					filters.has_attachments === Boolean(message.attachments?.length)) &&
+				matchesSearchMode(message.content, args.search_term, args.search_mode ?? 'words')
+		);
+
+		const titles = new Map<string, string>();
+		for (const message of matches) {
+			if (titles.has(message.conversation_id)) continue;
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			titles.set(message.conversation_id, conversation?.title ?? '');
+		}
+
+		return {
+			...page,
+			page: matches.map((message) => ({
+				_id: message._id,
+				_creationTime: message._creationTime,
+				conversation_id: message.conversation_id as Id<'conversations'>,
+				conversation_title: titles.get(message.conversation_id) ?? '',
+				role: message.role,
+				model_id: message.model_id,
+				snippet: searchSnippet(message.content, args.search_term),
+			})),
+		};
+	},
+});
+
+/**
+ * Set `user_id` on messages saved before it existed, they can't be found by `search` until
+ * then. Run once with `npx convex run messages:backfillUserIds`
+ *
+ * Skips the triggers, which would bump `updated_at` of every conversation.
+ */
+export const backfillUserIds = rawInternalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const page = await ctx.db
+			.query('messages')
+			.paginate({ cursor: args.cursor ?? null, numItems: 200 });
+
+		for (const message of page.page) {
+			if (message.user_id) continue;
+
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			if (conversation) await ctx.db.patch(message._id, { user_id: conversation.user_id });
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.messages.backfillUserIds, {
+				cursor: page.continueCursor,
+			});
+		}
+	},
+});
+
+/**
+ * Set `parent_id` and `version` on messages saved before conversations could branch, and
+ * `active_leaf_id` on their conversations, so their branch can be loaded a page at a time
+ * without reading the whole conversation. Run once with
+ * `npx convex run messages:backfillMessageTree`
+ *
+ * Skips the triggers, which would bump `updated_at` of every conversation.
+ */
+export const backfillMessageTree = rawInternalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const page = await ctx.db
+			.query('conversations')
+			.paginate({ cursor: args.cursor ?? null, numItems: 20 });
+
+		for (const conversation of page.page) {
+			const messages = await ctx.db
+				.query('messages')
+				.withIndex('by_conversation', (q) => q.eq('conversation_id', conversation._id))
+				.collect();
+			const tree = new MessageTree(messages);
+
+			// Placed where the tree already shows them, so no branch changes
+			for (const message of messages) {
+				if (message.version !== undefined) continue;
+
+				await ctx.db.patch(message._id, {
+					parent_id: tree.parentOf(message._id)?._id,
+					version: tree.siblingsOf(message._id).indexOf(message),
+				});
+			}
+
+			if (!conversation.active_leaf_id) {
+				const leaf = tree.activePath().at(-1);
+				if (leaf) await ctx.db.patch(conversation._id, { active_leaf_id: leaf._id });
+			}
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.messages.backfillMessageTree, {
+				cursor: page.continueCursor,
+			});
+		}
+	},
+});
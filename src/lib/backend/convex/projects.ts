@@ -0,0 +1,166 @@
+import { v } from 'convex/values';
+import { internal } from './_generated/api';
+import { type Doc, type Id } from './_generated/dataModel';
+import { query, type QueryCtx } from './_generated/server';
+import { mutation } from './functions';
+
+async function getOwnedProject(ctx: QueryCtx, projectId: Id<'projects'>, userId: string) {
+	const project = await ctx.db.get(projectId);
+
+	if (!project) throw new Error('Project not found');
+	if (project.user_id !== userId) throw new Error('You are not the owner of this project');
+
+	return project;
+}
+
+export const all = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'projects'>[]> => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const projects = await ctx.db
+			.query('projects')
+			.withIndex('by_user', (q) => q.eq('user_id', session.userId))
+			.collect();
+
+		return projects.sort((a, b) => a.name.localeCompare(b.name));
+	},
+});
+
+/**
+ * Project of the conversation, null when it isn't part of one
+ */
+export const getByConversation = query({
+	args: {
+		conversation_id: v.id('conversations'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'projects'> | null> => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const conversation = await ctx.db.get(args.conversation_id);
+
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Conversation not found or unauthorized');
+		}
+
+		if (!conversation.project_id) return null;
+
+		return await ctx.db.get(conversation.project_id);
+	},
+});
+
+export const create = mutation({
+	args: {
+		name: v.string(),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Id<'projects'>> => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const existing = await ctx.db
+			.query('projects')
+			.withIndex('by_user_name', (q) => q.eq('user_id', session.userId).eq('name', args.name))
+			.first();
+
+		if (existing) throw new Error('Project with this name already exists');
+
+		return await ctx.db.insert('projects', {
+			user_id: session.userId,
+			name: args.name,
+			rule_ids: [],
+		});
+	},
+});
+
+export const update = mutation({
+	args: {
+		project_id: v.id('projects'),
+		/** Cleared when unset */
+		default_model_id: v.optional(v.string()),
+		rule_ids: v.array(v.id('user_rules')),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		await getOwnedProject(ctx, args.project_id, session.userId);
+
+		for (const ruleId of args.rule_ids) {
+			const rule = await ctx.db.get(ruleId);
+			if (!rule || rule.user_id !== session.userId) throw new Error('Rule not found');
+		}
+
+		await ctx.db.patch(args.project_id, {
+			default_model_id: args.default_model_id,
+			rule_ids: args.rule_ids,
+		});
+	},
+});
+
+export const rename = mutation({
+	args: {
+		project_id: v.id('projects'),
+		name: v.string(),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		await getOwnedProject(ctx, args.project_id, session.userId);
+
+		const existing = await ctx.db
+			.query('projects')
+			.withIndex('by_user_name', (q) => q.eq('user_id', session.userId).eq('name', args.name))
+			.first();
+
+		if (existing && existing._id !== args.project_id) {
+			throw new Error('Project with this name already exists');
+		}
+
+		await ctx.db.patch(args.project_id, { name: args.name });
+	},
+});
+
+/**
+ * Delete the project, its conversations are kept and moved out of it
+ */
+export const remove = mutation({
+	args: {
+		project_id: v.id('projects'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		await getOwnedProject(ctx, args.project_id, session.userId);
+
+		await ctx.db.delete(args.project_id);
+	},
+});
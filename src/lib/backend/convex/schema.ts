@@ -1,6 +1,6 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { type Infer, v } from 'convex/values';
-import { Provider } from '../../../lib/types';
+import { EMBEDDING_DIMENSIONS, Provider } from '../../../lib/types';
 
 export const providerValidator = v.union(...Object.values(Provider).map((p) => v.literal(p)));
 export const messageRoleValidator = v.union(
@@ -16,20 +16,80 @@ export const reasoningEffortValidator = v.union(
 
 export type MessageRole = Infer<typeof messageRoleValidator>;
 
+export const toolCallValidator = v.object({
+	id: v.string(),
+	name: v.string(),
+	/** Raw JSON arguments as streamed by the model */
+	arguments: v.string(),
+	// result and error are unset while the tool is still running
+	result: v.optional(v.string()),
+	error: v.optional(v.string()),
+});
+
+export type ToolCall = Infer<typeof toolCallValidator>;
+
+/** Envelope encrypted secret, see `$lib/backend/envelope.ts` */
+export const encryptedSecretValidator = v.object({
+	version: v.number(),
+	ciphertext: v.string(),
+	iv: v.string(),
+	wrapped_key: v.string(),
+	key_iv: v.string(),
+});
+
+export const providerBudgetValidator = v.object({
+	provider: providerValidator,
+	limit_usd: v.number(),
+});
+
+export const generationJobStatusValidator = v.union(
+	v.literal('running'),
+	v.literal('completed'),
+	v.literal('failed'),
+	v.literal('cancelled')
+);
+
+export type GenerationJobStatus = Infer<typeof generationJobStatusValidator>;
+
 export const ruleAttachValidator = v.union(v.literal('always'), v.literal('manual'));
 
 export default defineSchema({
 	user_settings: defineTable({
 		user_id: v.string(),
 		privacy_mode: v.boolean(),
-	}).index('by_user', ['user_id']),
+		monthly_budget_usd: v.optional(v.number()),
+		budget_warning_percent: v.optional(v.number()),
+		provider_budgets: v.optional(v.array(providerBudgetValidator)),
+		/** The account and all of its data are deleted once this time has passed */
+		deletion_scheduled_at: v.optional(v.number()),
+		/** When `purge` was started for the account, so the sweep doesn't start it twice */
+		purge_started_at: v.optional(v.number()),
+	})
+		.index('by_user', ['user_id'])
+		.index('by_deletion_scheduled_at', ['deletion_scheduled_at']),
 	user_keys: defineTable({
 		user_id: v.string(),
 		provider: providerValidator,
-		key: v.string(),
+		/** @deprecated plaintext keys saved before encryption, see `user_keys_node:encryptLegacy` */
+		key: v.optional(v.string()),
+		encrypted_key: v.optional(encryptedSecretValidator),
+		/** Masked version of the key, the only thing the client ever sees */
+		preview: v.optional(v.string()),
 	})
 		.index('by_user', ['user_id'])
 		.index('by_provider_user', ['provider', 'user_id']),
+	user_custom_providers: defineTable({
+		user_id: v.string(),
+		/** Used as the model id prefix, e.g. `ollama/llama3.1` */
+		name: v.string(),
+		base_url: v.string(),
+		encrypted_key: v.optional(encryptedSecretValidator),
+		key_preview: v.optional(v.string()),
+		/** When empty, models are discovered from the endpoint's `/models` route */
+		models: v.array(v.string()),
+	})
+		.index('by_user', ['user_id'])
+		.index('by_user_name', ['user_id', 'name']),
 	user_enabled_models: defineTable({
 		user_id: v.string(),
 		provider: providerValidator,
@@ -51,18 +111,62 @@ export default defineSchema({
 		.index('by_user', ['user_id'])
 		.index('by_user_attach', ['user_id', 'attach'])
 		.index('by_user_name', ['user_id', 'name']),
+	projects: defineTable({
+		user_id: v.string(),
+		name: v.string(),
+		/** Model selected when starting a new chat in the project */
+		default_model_id: v.optional(v.string()),
+		/** Attached to every conversation of the project, like rules set to `always` */
+		rule_ids: v.array(v.id('user_rules')),
+	})
+		.index('by_user', ['user_id'])
+		.index('by_user_name', ['user_id', 'name']),
 	conversations: defineTable({
 		user_id: v.string(),
 		title: v.string(),
+		project_id: v.optional(v.id('projects')),
 		updated_at: v.optional(v.number()),
 		pinned: v.optional(v.boolean()),
 		generating: v.optional(v.boolean()),
 		cost_usd: v.optional(v.number()),
+		token_count: v.optional(v.number()),
 		public: v.optional(v.boolean()),
 		branched_from: v.optional(v.id('conversations')),
-	}).index('by_user', ['user_id']),
+		/** Last message of the branch being shown, the newest branch is used when unset */
+		active_leaf_id: v.optional(v.id('messages')),
+		/** Normalized with `$lib/utils/tags`, indexed through `conversation_tags` */
+		tags: v.optional(v.array(v.string())),
+		/** Offered in the tag picker, unset until they were generated */
+		suggested_tags: v.optional(v.array(v.string())),
+		/** Model of the latest answer */
+		model_id: v.optional(v.string()),
+		/** Archived conversations are left out of the sidebar */
+		archived_at: v.optional(v.number()),
+	})
+		.index('by_user', ['user_id'])
+		.index('by_user_project', ['user_id', 'project_id'])
+		.index('by_user_archived', ['user_id', 'archived_at'])
+		.index('by_user_archived_project', ['user_id', 'archived_at', 'project_id', 'updated_at'])
+		.index('by_user_pinned', ['user_id', 'pinned', 'updated_at'])
+		.index('by_user_updated', ['user_id', 'updated_at'])
+		.index('by_user_model', ['user_id', 'model_id', 'updated_at'])
+		.index('by_user_public', ['user_id', 'public', 'updated_at'])
+		.searchIndex('search_title', {
+			searchField: 'title',
+			filterFields: ['user_id', 'project_id'],
+		}),
+	/** One row per tag of a conversation, kept in sync with `conversations.tags` by a trigger */
+	conversation_tags: defineTable({
+		user_id: v.string(),
+		conversation_id: v.id('conversations'),
+		tag: v.string(),
+	})
+		.index('by_user_tag', ['user_id', 'tag'])
+		.index('by_conversation', ['conversation_id']),
 	messages: defineTable({
 		conversation_id: v.string(),
+		/** Owner of the conversation, unset on messages saved before search, see `backfillUserIds` */
+		user_id: v.optional(v.string()),
 		role: v.union(v.literal('user'), v.literal('assistant'), v.literal('system')),
 		content: v.string(),
 		content_html: v.optional(v.string()),
@@ -72,11 +176,19 @@ export default defineSchema({
 		model_id: v.optional(v.string()),
 		provider: v.optional(providerValidator),
 		token_count: v.optional(v.number()),
+		input_tokens: v.optional(v.number()),
+		output_tokens: v.optional(v.number()),
+		reasoning_tokens: v.optional(v.number()),
 		// Optional attachments
 		attachments: v.optional(
 			v.array(
 				v.object({
-					type: v.union(v.literal('image'), v.literal('video'), v.literal('audio'), v.literal('document')),
+					type: v.union(
+						v.literal('image'),
+						v.literal('video'),
+						v.literal('audio'),
+						v.literal('document')
+					),
 					url: v.string(),
 					storage_id: v.string(),
 					fileName: v.string(),
@@ -90,5 +202,80 @@ export default defineSchema({
 		web_search_enabled: v.optional(v.boolean()),
 		reasoning_effort: v.optional(reasoningEffortValidator),
 		annotations: v.optional(v.array(v.record(v.string(), v.any()))),
-	}).index('by_conversation', ['conversation_id']),
+		tool_calls: v.optional(v.array(toolCallValidator)),
+		/** Message this one follows, unset for the first message of a conversation */
+		parent_id: v.optional(v.id('messages')),
+		/**
+		 * Index among the messages sharing the same parent, edits and regenerations are siblings.
+		 * Unset on messages saved before conversations could branch, see `$lib/utils/message-tree`
+		 */
+		version: v.optional(v.number()),
+		/**
+		 * Models answering this user message side by side, cleared once one of the answers
+		 * is adopted to continue the conversation
+		 */
+		compare_model_ids: v.optional(v.array(v.string())),
+		/** Time from the request to the end of the answer */
+		latency_ms: v.optional(v.number()),
+		/** Counted in `usage_daily`, see `usage:backfill` for older messages */
+		usage_recorded: v.optional(v.boolean()),
+	})
+		.index('by_conversation', ['conversation_id'])
+		.index('by_conversation_parent', ['conversation_id', 'parent_id'])
+		.index('by_user', ['user_id'])
+		.searchIndex('search_content', {
+			searchField: 'content',
+			filterFields: ['user_id', 'role', 'model_id'],
+		}),
+	/**
+	 * Usage added up per day, conversation and model as the cost of each answer is saved. Kept
+	 * when conversations are deleted, so deleting them doesn't lower the spend of the month
+	 */
+	usage_daily: defineTable({
+		user_id: v.string(),
+		/** UTC day, `YYYY-MM-DD` */
+		day: v.string(),
+		conversation_id: v.string(),
+		model_id: v.optional(v.string()),
+		provider: v.optional(providerValidator),
+		cost_usd: v.number(),
+		token_count: v.number(),
+		messages: v.number(),
+	}).index('by_user_day', ['user_id', 'day', 'conversation_id']),
+	/** Vectors of messages for semantic search, written once the answer is complete */
+	message_embeddings: defineTable({
+		message_id: v.id('messages'),
+		/** `${user_id}:${model}`, vectors of different models can't be compared */
+		scope: v.string(),
+		/** Embedding model, e.g. `openai/text-embedding-3-small` */
+		model: v.string(),
+		embedding: v.array(v.float64()),
+	})
+		.index('by_message', ['message_id'])
+		.vectorIndex('by_embedding', {
+			vectorField: 'embedding',
+			dimensions: EMBEDDING_DIMENSIONS,
+			filterFields: ['scope'],
+		}),
+	/** Which messages use an uploaded file, the file is deleted with its last reference */
+	storage_refs: defineTable({
+		storage_id: v.id('_storage'),
+		message_id: v.id('messages'),
+	}).index('by_storage_message', ['storage_id', 'message_id']),
+	generation_jobs: defineTable({
+		user_id: v.string(),
+		conversation_id: v.id('conversations'),
+		// Set once the assistant message has been created
+		message_id: v.optional(v.id('messages')),
+		model_id: v.string(),
+		status: generationJobStatusValidator,
+		/** Checked by the instance running the job on every heartbeat */
+		cancel_requested: v.boolean(),
+		started_at: v.number(),
+		heartbeat_at: v.number(),
+		finished_at: v.optional(v.number()),
+		error: v.optional(v.string()),
+	})
+		.index('by_conversation_status', ['conversation_id', 'status'])
+		.index('by_status_heartbeat', ['status', 'heartbeat_at']),
 });
@@ -1,7 +1,18 @@
 import { v } from 'convex/values';
-import { api } from './_generated/api';
+import { api, internal } from './_generated/api';
+import { type Id } from './_generated/dataModel';
 import { query } from './_generated/server';
-import { mutation } from './functions';
+import {
+	deleteUnreferencedFile,
+	getRefsTrackedSince,
+	internalMutation,
+	mutation,
+} from './functions';
+
+/** Files uploaded but not sent are kept this long, the user may still be writing the message */
+const UNSENT_FILE_RETENTION_MS = 24 * 60 * 60 * 1000;
+/** Files checked per run of the sweep */
+const SWEEP_BATCH_SIZE = 100;
 
 export const generateUploadUrl = mutation({
 	args: {
@@ -38,9 +49,73 @@ export const getUrl = query({
 	},
 });
 
+/**
+ * The stored files attached to the messages of a conversation, with the size Convex keeps for
+ * them. Attachments that aren't in storage are left out
+ */
+export const getConversationFiles = query({
+	args: {
+		conversation_id: v.id('conversations'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const conversation = await ctx.db.get(args.conversation_id);
+		if (!conversation || conversation.user_id !== session.userId) {
+			throw new Error('Unauthorized');
+		}
+
+		const messages = await ctx.db
+			.query('messages')
+			.withIndex('by_conversation', (q) => q.eq('conversation_id', args.conversation_id))
+			.collect();
+
+		const files: {
+			storage_id: Id<'_storage'>;
+			file_name: string;
+			message_created_at: number;
+			url: string;
+			size: number;
+		}[] = [];
+
+		for (const message of messages) {
+			for (const attachment of message.attachments ?? []) {
+				const storageId = ctx.db.system.normalizeId('_storage', attachment.storage_id);
+				if (!storageId) continue;
+
+				const [file, url] = await Promise.all([
+					ctx.db.system.get(storageId),
+					ctx.storage.getUrl(storageId),
+				]);
+				if (!file || !url) continue;
+
+				files.push({
+					storage_id: storageId,
+					file_name: attachment.fileName,
+					message_created_at: message._creationTime,
+					url,
+					size: file.size,
+				});
+			}
+		}
+
+		return files;
+	},
+});
+
+/**
+ * Delete a file that was uploaded but not sent, files attached to messages are deleted with them
+ */
 export const deleteFile = mutation({
 	args: {
-		storage_id: v.string(),
+		storage_id: v.id('_storage'),
 		session_token: v.string(),
 	},
 	handler: async (ctx, args) => {
@@ -52,6 +127,84 @@ export const deleteFile = mutation({
 			throw new Error('Unauthorized');
 		}
 
-		await ctx.storage.delete(args.storage_id);
+		await deleteUnreferencedFile(ctx, args.storage_id);
+	},
+});
+
+/**
+ * Delete files no message refers to, a batch at a time until every file was checked.
+ * Files older than the first recorded reference are left alone, they predate the tracking.
+ */
+export const sweep = internalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<{ deleted: number }> => {
+		const trackedSince = await getRefsTrackedSince(ctx);
+		if (trackedSince === undefined) return { deleted: 0 };
+
+		const cutoff = Date.now() - UNSENT_FILE_RETENTION_MS;
+		const page = await ctx.db.system
+			.query('_storage')
+			.paginate({ cursor: args.cursor ?? null, numItems: SWEEP_BATCH_SIZE });
+
+		let deleted = 0;
+		for (const file of page.page) {
+			if (file._creationTime < trackedSince || file._creationTime > cutoff) continue;
+
+			const ref = await ctx.db
+				.query('storage_refs')
+				.withIndex('by_storage_message', (q) => q.eq('storage_id', file._id))
+				.first();
+
+			if (!ref) {
+				await ctx.storage.delete(file._id);
+				deleted++;
+			}
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.storage.sweep, { cursor: page.continueCursor });
+		}
+
+		return { deleted };
+	},
+});
+
+/**
+ * Record the references of messages sent before `storage_refs` existed, so deleting one of
+ * them doesn't take a file another copy still uses. Run once with
+ * `npx convex run storage:backfillRefs`
+ */
+export const backfillRefs = internalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const page = await ctx.db
+			.query('messages')
+			.paginate({ cursor: args.cursor ?? null, numItems: SWEEP_BATCH_SIZE });
+
+		for (const message of page.page) {
+			for (const attachment of message.attachments ?? []) {
+				const storageId = attachment.storage_id as Id<'_storage'>;
+				const existing = await ctx.db
+					.query('storage_refs')
+					.withIndex('by_storage_message', (q) =>
+						q.eq('storage_id', storageId).eq('message_id', message._id)
+					)
+					.first();
+
+				if (!existing) {
+					await ctx.db.insert('storage_refs', { storage_id: storageId, message_id: message._id });
+				}
+			}
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.storage.backfillRefs, {
+				cursor: page.continueCursor,
+			});
+		}
 	},
 });
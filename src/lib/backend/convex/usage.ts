@@ -0,0 +1,269 @@
+import { v } from 'convex/values';
+import { getDayKey, getMonthStart, type MonthlySpend } from '../../utils/budget';
+import { api, internal } from './_generated/api';
+import { type Doc, type Id } from './_generated/dataModel';
+import {
+	// eslint-disable-next-line no-restricted-imports -- see `backfill`
+	internalMutation as rawInternalMutation,
+	query,
+	type MutationCtx,
+} from './_generated/server';
+
+const TOP_CONVERSATIONS = 10;
+
+export type UsageBucket = {
+	key: string;
+	cost_usd: number;
+	token_count: number;
+	messages: number;
+};
+
+export type UsageSummary = {
+	total: UsageBucket;
+	daily: UsageBucket[];
+	by_model: UsageBucket[];
+	by_provider: UsageBucket[];
+	top_conversations: (UsageBucket & { title: string })[];
+};
+
+export type UsageRow = {
+	created_at: number;
+	conversation_id: string;
+	conversation_title: string;
+	message_id: Id<'messages'>;
+	model_id?: string;
+	provider?: Doc<'messages'>['provider'];
+	input_tokens?: number;
+	output_tokens?: number;
+	reasoning_tokens?: number;
+	token_count?: number;
+	cost_usd?: number;
+};
+
+/**
+ * Add the usage of an answer to the totals of its day. When the answer was counted before,
+ * only the difference is added
+ */
+export async function recordUsage(
+	ctx: { db: MutationCtx['db'] },
+	message: Doc<'messages'>,
+	userId: string,
+	usage: { cost_usd?: number; token_count?: number }
+): Promise<void> {
+	const counted = message.usage_recorded === true;
+	const cost = (usage.cost_usd ?? 0) - (counted ? (message.cost_usd ?? 0) : 0);
+	const tokens = (usage.token_count ?? 0) - (counted ? (message.token_count ?? 0) : 0);
+
+	const rows = await ctx.db
+		.query('usage_daily')
+		.withIndex('by_user_day', (q) =>
+			q
+				.eq('user_id', userId)
+				.eq('day', getDayKey(message._creationTime))
+				.eq('conversation_id', message.conversation_id)
+		)
+		.collect();
+	const row = rows.find((r) => r.model_id === message.model_id && r.provider === message.provider);
+
+	if (row) {
+		await ctx.db.patch(row._id, {
+			cost_usd: row.cost_usd + cost,
+			token_count: row.token_count + tokens,
+			messages: row.messages + (counted ? 0 : 1),
+		});
+	} else {
+		await ctx.db.insert('usage_daily', {
+			user_id: userId,
+			day: getDayKey(message._creationTime),
+			conversation_id: message.conversation_id,
+			model_id: message.model_id,
+			provider: message.provider,
+			cost_usd: cost,
+			token_count: tokens,
+			messages: 1,
+		});
+	}
+}
+
+function addToBucket(buckets: Map<string, UsageBucket>, key: string, row: Doc<'usage_daily'>) {
+	const bucket = buckets.get(key) ?? { key, cost_usd: 0, token_count: 0, messages: 0 };
+
+	bucket.cost_usd += row.cost_usd;
+	bucket.token_count += row.token_count;
+	bucket.messages += row.messages;
+
+	buckets.set(key, bucket);
+}
+
+const byCost = (a: { cost_usd: number }, b: { cost_usd: number }) => b.cost_usd - a.cost_usd;
+
+export const summary = query({
+	args: {
+		session_token: v.string(),
+		since: v.optional(v.number()),
+	},
+	handler: async (ctx, args): Promise<UsageSummary> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const rows = await ctx.db
+			.query('usage_daily')
+			.withIndex('by_user_day', (q) =>
+				q.eq('user_id', session.userId).gte('day', getDayKey(args.since ?? 0))
+			)
+			.collect();
+
+		const daily = new Map<string, UsageBucket>();
+		const byModel = new Map<string, UsageBucket>();
+		const byProvider = new Map<string, UsageBucket>();
+		const byConversation = new Map<string, UsageBucket>();
+		const total: UsageBucket = { key: 'total', cost_usd: 0, token_count: 0, messages: 0 };
+
+		for (const row of rows) {
+			addToBucket(daily, row.day, row);
+			addToBucket(byModel, row.model_id ?? 'unknown', row);
+			addToBucket(byProvider, row.provider ?? 'unknown', row);
+			addToBucket(byConversation, row.conversation_id, row);
+
+			total.cost_usd += row.cost_usd;
+			total.token_count += row.token_count;
+			total.messages += row.messages;
+		}
+
+		const topConversations = await Promise.all(
+			Array.from(byConversation.values())
+				.sort(byCost)
+				.slice(0, TOP_CONVERSATIONS)
+				.map(async (bucket) => {
+					const conversation = await ctx.db.get(bucket.key as Id<'conversations'>);
+					// The spend of deleted conversations still counts
+					return { ...bucket, title: conversation?.title ?? 'Deleted conversation' };
+				})
+		);
+
+		return {
+			total,
+			daily: Array.from(daily.values()).sort((a, b) => a.key.localeCompare(b.key)),
+			by_model: Array.from(byModel.values()).sort(byCost),
+			by_provider: Array.from(byProvider.values()).sort(byCost),
+			top_conversations: topConversations,
+		};
+	},
+});
+
+/**
+ * Every assistant message with its usage, for the CSV export. Messages saved before they had
+ * a `user_id` are left out until `messages:backfillUserIds` has run
+ */
+export const rows = query({
+	args: {
+		session_token: v.string(),
+		since: v.optional(v.number()),
+	},
+	handler: async (ctx, args): Promise<UsageRow[]> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const messages = await ctx.db
+			.query('messages')
+			.withIndex('by_user', (q) =>
+				q.eq('user_id', session.userId).gte('_creationTime', args.since ?? 0)
+			)
+			.filter((q) => q.eq(q.field('role'), 'assistant'))
+			.collect();
+
+		const titles = new Map<string, string>();
+		for (const message of messages) {
+			if (titles.has(message.conversation_id)) continue;
+
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			titles.set(message.conversation_id, conversation?.title ?? '');
+		}
+
+		return messages.map((message) => ({
+			created_at: message._creationTime,
+			conversation_id: message.conversation_id,
+			conversation_title: titles.get(message.conversation_id) ?? '',
+			message_id: message._id,
+			model_id: message.model_id,
+			provider: message.provider,
+			input_tokens: message.input_tokens,
+			output_tokens: message.output_tokens,
+			reasoning_tokens: message.reasoning_tokens,
+			token_count: message.token_count,
+			cost_usd: message.cost_usd,
+		}));
+	},
+});
+
+/**
+ * Spend since the start of the month, used to enforce budgets
+ */
+export const monthToDate = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<MonthlySpend> => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) throw new Error('Unauthorized');
+
+		const rows = await ctx.db
+			.query('usage_daily')
+			.withIndex('by_user_day', (q) =>
+				q.eq('user_id', session.userId).gte('day', getDayKey(getMonthStart()))
+			)
+			.collect();
+
+		const spend: MonthlySpend = { total: 0, by_provider: {} };
+
+		for (const row of rows) {
+			spend.total += row.cost_usd;
+			if (row.provider) {
+				spend.by_provider[row.provider] = (spend.by_provider[row.provider] ?? 0) + row.cost_usd;
+			}
+		}
+
+		return spend;
+	},
+});
+
+/**
+ * Count the answers saved before `usage_daily` existed, budgets and the dashboard leave them
+ * out until then. Run once with `npx convex run usage:backfill`
+ *
+ * Skips the triggers, which would bump `updated_at` of every conversation.
+ */
+export const backfill = rawInternalMutation({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const page = await ctx.db
+			.query('messages')
+			.paginate({ cursor: args.cursor ?? null, numItems: 200 });
+
+		for (const message of page.page) {
+			if (message.role !== 'assistant' || message.usage_recorded) continue;
+			if (message.cost_usd === undefined && message.token_count === undefined) continue;
+
+			const conversation = await ctx.db.get(message.conversation_id as Id<'conversations'>);
+			if (!conversation) continue;
+
+			await recordUsage(ctx, message, conversation.user_id, message);
+			await ctx.db.patch(message._id, { usage_recorded: true });
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.usage.backfill, { cursor: page.continueCursor });
+		}
+	},
+});
@@ -0,0 +1,242 @@
+import { v } from 'convex/values';
+import { Provider } from '../../types';
+import { internal } from './_generated/api';
+import { type Doc } from './_generated/dataModel';
+import { query, type MutationCtx } from './_generated/server';
+import { mutation } from './functions';
+import { encryptedSecretValidator } from './schema';
+
+const NAME_REGEX = /^[a-z0-9_-]+$/i;
+
+export const getCustomModelId = (args: { name: string; model: string }) => {
+	return `${args.name}/${args.model}`;
+};
+
+function normalizeBaseUrl(baseUrl: string) {
+	const trimmed = baseUrl.trim().replace(/\/+$/, '');
+
+	if (!/^https?:\/\//.test(trimmed))
+		throw new Error('Base URL must start with http:// or https://');
+
+	return trimmed;
+}
+
+function normalizeModels(models: string[]) {
+	return Array.from(new Set(models.map((m) => m.trim()).filter((m) => m.length > 0)));
+}
+
+/** Keep `user_enabled_models` in sync with the models listed on an endpoint */
+async function syncEnabledModels(
+	ctx: MutationCtx,
+	args: { userId: string; name: string; previous: string[]; next: string[] }
+) {
+	const toModelId = (model: string) => getCustomModelId({ name: args.name, model });
+
+	const removed = args.previous.filter((m) => !args.next.includes(m));
+	const added = args.next.filter((m) => !args.previous.includes(m));
+
+	await Promise.all([
+		...removed.map(async (model) => {
+			const existing = await ctx.db
+				.query('user_enabled_models')
+				.withIndex('by_model_provider_user', (q) =>
+					q
+						.eq('model_id', toModelId(model))
+						.eq('provider', Provider.Custom)
+						.eq('user_id', args.userId)
+				)
+				.first();
+
+			if (existing) await ctx.db.delete(existing._id);
+		}),
+		...added.map(async (model) => {
+			const existing = await ctx.db
+				.query('user_enabled_models')
+				.withIndex('by_model_provider_user', (q) =>
+					q
+						.eq('model_id', toModelId(model))
+						.eq('provider', Provider.Custom)
+						.eq('user_id', args.userId)
+				)
+				.first();
+
+			if (existing) return;
+
+			await ctx.db.insert('user_enabled_models', {
+				user_id: args.userId,
+				provider: Provider.Custom,
+				model_id: toModelId(model),
+				pinned: false,
+			});
+		}),
+	]);
+}
+
+/**
+ * The user's endpoints with their key replaced by a masked preview
+ */
+export const all = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Omit<Doc<'user_custom_providers'>, 'encrypted_key'>[]> => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const providers = await ctx.db
+			.query('user_custom_providers')
+			.withIndex('by_user', (q) => q.eq('user_id', session.userId))
+			.collect();
+
+		return providers.map(({ encrypted_key: _, ...provider }) => provider);
+	},
+});
+
+/**
+ * The user's endpoints including their encrypted key, for the server routes to decrypt
+ */
+export const allEncrypted = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args): Promise<Doc<'user_custom_providers'>[]> => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		return await ctx.db
+			.query('user_custom_providers')
+			.withIndex('by_user', (q) => q.eq('user_id', session.userId))
+			.collect();
+	},
+});
+
+export const create = mutation({
+	args: {
+		name: v.string(),
+		base_url: v.string(),
+		encrypted_key: v.optional(encryptedSecretValidator),
+		key_preview: v.optional(v.string()),
+		models: v.array(v.string()),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const name = args.name.trim();
+		if (!NAME_REGEX.test(name)) {
+			throw new Error('Name can only contain letters, numbers, dashes and underscores');
+		}
+
+		const existing = await ctx.db
+			.query('user_custom_providers')
+			.withIndex('by_user_name', (q) => q.eq('user_id', session.userId).eq('name', name))
+			.first();
+
+		if (existing) throw new Error('Endpoint with this name already exists');
+
+		const models = normalizeModels(args.models);
+
+		await ctx.db.insert('user_custom_providers', {
+			user_id: session.userId,
+			name,
+			base_url: normalizeBaseUrl(args.base_url),
+			encrypted_key: args.encrypted_key,
+			key_preview: args.key_preview,
+			models,
+		});
+
+		await syncEnabledModels(ctx, { userId: session.userId, name, previous: [], next: models });
+	},
+});
+
+export const update = mutation({
+	args: {
+		providerId: v.id('user_custom_providers'),
+		base_url: v.string(),
+		// Left untouched when omitted
+		encrypted_key: v.optional(encryptedSecretValidator),
+		key_preview: v.optional(v.string()),
+		models: v.array(v.string()),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const existing = await ctx.db.get(args.providerId);
+
+		if (!existing) throw new Error('Endpoint not found');
+		if (existing.user_id !== session.userId) {
+			throw new Error('You are not the owner of this endpoint');
+		}
+
+		const models = normalizeModels(args.models);
+
+		await ctx.db.patch(args.providerId, {
+			base_url: normalizeBaseUrl(args.base_url),
+			...(args.encrypted_key && {
+				encrypted_key: args.encrypted_key,
+				key_preview: args.key_preview,
+			}),
+			models,
+		});
+
+		await syncEnabledModels(ctx, {
+			userId: session.userId,
+			name: existing.name,
+			previous: existing.models,
+			next: models,
+		});
+	},
+});
+
+export const remove = mutation({
+	args: {
+		providerId: v.id('user_custom_providers'),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) throw new Error('Invalid session token');
+
+		const existing = await ctx.db.get(args.providerId);
+
+		if (!existing) throw new Error('Endpoint not found');
+		if (existing.user_id !== session.userId) {
+			throw new Error('You are not the owner of this endpoint');
+		}
+
+		// Discovered models may have been enabled by hand, so match on the prefix
+		const enabledModels = await ctx.db
+			.query('user_enabled_models')
+			.withIndex('by_provider_user', (q) =>
+				q.eq('provider', Provider.Custom).eq('user_id', session.userId)
+			)
+			.collect();
+
+		const prefix = getCustomModelId({ name: existing.name, model: '' });
+
+		await Promise.all([
+			...enabledModels
+				.filter((m) => m.model_id.startsWith(prefix))
+				.map((m) => ctx.db.delete(m._id)),
+			ctx.db.delete(args.providerId),
+		]);
+	},
+});
@@ -1,11 +1,23 @@
 import { v } from 'convex/values';
 import { Provider } from '../../types';
+import { maskSecret } from '../../utils/strings';
 import { api, internal } from './_generated/api';
-import { query } from './_generated/server';
-import { mutation } from './functions';
-import { providerValidator } from './schema';
+import { type Doc } from './_generated/dataModel';
+import { paginationOptsValidator } from 'convex/server';
+import { internalQuery, query } from './_generated/server';
+import { internalMutation, mutation } from './functions';
+import { encryptedSecretValidator, providerValidator } from './schema';
 import { type SessionObj } from './betterAuth';
 
+function getPreview(userKey: Doc<'user_keys'> | null | undefined) {
+	if (!userKey) return undefined;
+
+	return userKey.preview ?? (userKey.key ? maskSecret(userKey.key) : undefined);
+}
+
+/**
+ * Masked previews of the user's keys, keyed by provider
+ */
 export const all = query({
 	args: {
 		session_token: v.string(),
@@ -28,7 +40,7 @@ export const all = query({
 
 		return Object.values(Provider).reduce(
 			(acc, key) => {
-				acc[key] = allKeys.find((item) => item.provider === key)?.key;
+				acc[key] = getPreview(allKeys.find((item) => item.provider === key));
 				return acc;
 			},
 			{} as Record<Provider, string | undefined>
@@ -36,6 +48,9 @@ export const all = query({
 	},
 });
 
+/**
+ * Masked preview of the user's key for a provider
+ */
 export const get = query({
 	args: {
 		provider: providerValidator,
@@ -57,14 +72,89 @@ export const get = query({
 			.withIndex('by_provider_user', (q) => q.eq('provider', args.provider).eq('user_id', s.userId))
 			.first();
 
-		return key?.key;
+		return getPreview(key);
 	},
 });
 
+/**
+ * Encrypted keys for the server routes to decrypt. Only ciphertext leaves the database,
+ * plaintext keys saved before encryption are left out until `user_keys_node:encryptLegacy`
+ * has run.
+ */
+export const allEncrypted = query({
+	args: {
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(api.betterAuth.publicGetSession, {
+			session_token: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const s = session as SessionObj;
+
+		const allKeys = await ctx.db
+			.query('user_keys')
+			.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+			.collect();
+
+		return allKeys.flatMap(({ provider, encrypted_key }) =>
+			encrypted_key ? [{ provider, encrypted_key }] : []
+		);
+	},
+});
+
+/**
+ * A page of the keys still stored in plaintext, see `user_keys_node:encryptLegacy`
+ */
+export const legacyPage = internalQuery({
+	args: {
+		paginationOpts: paginationOptsValidator,
+	},
+	handler: async (ctx, args) => {
+		const page = await ctx.db.query('user_keys').paginate(args.paginationOpts);
+
+		return {
+			keys: page.page.flatMap(({ _id, key, encrypted_key }) =>
+				key && !encrypted_key ? [{ _id, key }] : []
+			),
+			continueCursor: page.continueCursor,
+			isDone: page.isDone,
+		};
+	},
+});
+
+/**
+ * Replace a plaintext key with its encrypted version, unless it was saved again meanwhile
+ */
+export const saveEncrypted = internalMutation({
+	args: {
+		key_id: v.id('user_keys'),
+		key: v.string(),
+		encrypted_key: encryptedSecretValidator,
+		preview: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const userKey = await ctx.db.get(args.key_id);
+		if (!userKey || userKey.key !== args.key || userKey.encrypted_key) return;
+
+		await ctx.db.patch(args.key_id, {
+			key: undefined,
+			encrypted_key: args.encrypted_key,
+			preview: args.preview,
+		});
+	},
+});
+
+/** Called by `/api/keys`, which encrypts the key before it reaches Convex */
 export const set = mutation({
 	args: {
 		provider: providerValidator,
-		key: v.string(),
+		encrypted_key: encryptedSecretValidator,
+		preview: v.string(),
 		session_token: v.string(),
 	},
 	handler: async (ctx, args) => {
@@ -92,3 +182,28 @@ export const set = mutation({
 		}
 	},
 });
+
+export const remove = mutation({
+	args: {
+		provider: providerValidator,
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Unauthorized');
+		}
+
+		const existing = await ctx.db
+			.query('user_keys')
+			.withIndex('by_provider_user', (q) =>
+				q.eq('provider', args.provider).eq('user_id', session.userId)
+			)
+			.first();
+
+		if (existing) await ctx.db.delete(existing._id);
+	},
+});
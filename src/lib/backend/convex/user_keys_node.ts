@@ -0,0 +1,41 @@
+'use node';
+
+import { v } from 'convex/values';
+import { maskSecret } from '../../utils/strings';
+import { encryptSecret, parseMasterKey } from '../envelope';
+import { internal } from './_generated/api';
+import { internalAction } from './_generated/server';
+
+/**
+ * Encrypt the keys saved before encryption, a page at a time. Run once with
+ * `npx convex run user_keys_node:encryptLegacy` after setting `API_KEY_ENCRYPTION_KEY` on the
+ * deployment, until then those keys can't be used.
+ */
+export const encryptLegacy = internalAction({
+	args: {
+		cursor: v.optional(v.string()),
+	},
+	handler: async (ctx, args): Promise<void> => {
+		const masterKey = parseMasterKey(process.env.API_KEY_ENCRYPTION_KEY);
+		if (masterKey.isErr()) throw new Error(`API_KEY_ENCRYPTION_KEY is invalid: ${masterKey.error}`);
+
+		const page = await ctx.runQuery(internal.user_keys.legacyPage, {
+			paginationOpts: { cursor: args.cursor ?? null, numItems: 100 },
+		});
+
+		for (const { _id, key } of page.keys) {
+			await ctx.runMutation(internal.user_keys.saveEncrypted, {
+				key_id: _id,
+				key,
+				encrypted_key: encryptSecret(key, masterKey.value),
+				preview: maskSecret(key),
+			});
+		}
+
+		if (!page.isDone) {
+			await ctx.scheduler.runAfter(0, internal.user_keys_node.encryptLegacy, {
+				cursor: page.continueCursor,
+			});
+		}
+	},
+});
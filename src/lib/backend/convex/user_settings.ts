@@ -3,6 +3,7 @@ import { query } from './_generated/server';
 import { type SessionObj } from './betterAuth';
 import { mutation } from './functions';
 import { v } from 'convex/values';
+import { providerBudgetValidator } from './schema';
 
 export const get = query({
 	args: {
@@ -60,6 +61,59 @@ export const set = mutation({
 	},
 });
 
+export const setBudget = mutation({
+	args: {
+		monthly_budget_usd: v.optional(v.number()),
+		budget_warning_percent: v.optional(v.number()),
+		provider_budgets: v.array(providerBudgetValidator),
+		session_token: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const session = await ctx.runQuery(internal.betterAuth.getSession, {
+			sessionToken: args.session_token,
+		});
+
+		if (!session) {
+			throw new Error('Invalid session token');
+		}
+
+		const s = session as SessionObj;
+
+		const limits = [args.monthly_budget_usd, ...args.provider_budgets.map((b) => b.limit_usd)];
+		if (limits.some((limit) => limit !== undefined && limit < 0)) {
+			throw new Error('Budgets must be positive');
+		}
+
+		if (
+			args.budget_warning_percent !== undefined &&
+			(args.budget_warning_percent < 0 || args.budget_warning_percent > 100)
+		) {
+			throw new Error('Warning threshold must be between 0 and 100');
+		}
+
+		const budget = {
+			monthly_budget_usd: args.monthly_budget_usd,
+			budget_warning_percent: args.budget_warning_percent,
+			provider_budgets: args.provider_budgets,
+		};
+
+		const existing = await ctx.db
+			.query('user_settings')
+			.withIndex('by_user', (q) => q.eq('user_id', s.userId))
+			.first();
+
+		if (!existing) {
+			await ctx.db.insert('user_settings', {
+				user_id: s.userId,
+				privacy_mode: false,
+				...budget,
+			});
+		} else {
+			await ctx.db.patch(existing._id, budget);
+		}
+	},
+});
+
 /** Never call this from the client */
 export const create = mutation({
 	args: {
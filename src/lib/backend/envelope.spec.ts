@@ -0,0 +1,61 @@
+import { randomBytes } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { decryptSecret, encryptSecret, parseMasterKey } from './envelope';
+
+const masterKey = randomBytes(32);
+
+describe('encryptSecret', () => {
+	it('round trips through decryptSecret', () => {
+		const secret = encryptSecret('sk-test-1234567890', masterKey);
+
+		expect(decryptSecret(secret, masterKey)._unsafeUnwrap()).toBe('sk-test-1234567890');
+	});
+
+	it('never stores the plaintext and uses a fresh data key every time', () => {
+		const a = encryptSecret('sk-test-1234567890', masterKey);
+		const b = encryptSecret('sk-test-1234567890', masterKey);
+
+		expect(JSON.stringify(a)).not.toContain('sk-test');
+		expect(a.ciphertext).not.toBe(b.ciphertext);
+		expect(a.wrapped_key).not.toBe(b.wrapped_key);
+	});
+});
+
+describe('decryptSecret', () => {
+	it('fails with the wrong master key', () => {
+		const secret = encryptSecret('sk-test', masterKey);
+
+		expect(decryptSecret(secret, randomBytes(32)).isErr()).toBe(true);
+	});
+
+	it('fails when the ciphertext was tampered with', () => {
+		const secret = encryptSecret('sk-test', masterKey);
+		const bytes = Buffer.from(secret.ciphertext, 'base64');
+		bytes[0]! ^= 1;
+
+		expect(
+			decryptSecret({ ...secret, ciphertext: bytes.toString('base64') }, masterKey).isErr()
+		).toBe(true);
+	});
+
+	it('rejects unknown envelope versions', () => {
+		const secret = encryptSecret('sk-test', masterKey);
+
+		expect(decryptSecret({ ...secret, version: 99 }, masterKey)._unsafeUnwrapErr()).toContain(
+			'Unsupported envelope version'
+		);
+	});
+});
+
+describe('parseMasterKey', () => {
+	it('accepts a base64 encoded 256-bit key', () => {
+		expect(parseMasterKey(masterKey.toString('base64'))._unsafeUnwrap().equals(masterKey)).toBe(
+			true
+		);
+	});
+
+	it('rejects missing or short keys', () => {
+		expect(parseMasterKey(undefined).isErr()).toBe(true);
+		expect(parseMasterKey(randomBytes(16).toString('base64')).isErr()).toBe(true);
+	});
+});
@@ -0,0 +1,87 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { err, ok, Result } from 'neverthrow';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export const ENVELOPE_VERSION = 1;
+
+/**
+ * A secret encrypted with its own random data key, which is itself encrypted ("wrapped")
+ * with the server-held master key. Rotating the master key only requires re-wrapping the
+ * data keys, and the database never holds anything that can decrypt on its own.
+ *
+ * All fields are base64, `ciphertext` and `wrapped_key` have their GCM auth tag appended.
+ */
+export type EncryptedSecret = {
+	version: number;
+	ciphertext: string;
+	iv: string;
+	wrapped_key: string;
+	key_iv: string;
+};
+
+function seal(plaintext: Buffer, key: Buffer): { data: string; iv: string } {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+
+	const data = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+	return { data: data.toString('base64'), iv: iv.toString('base64') };
+}
+
+function open(data: string, iv: string, key: Buffer): Buffer {
+	const buffer = Buffer.from(data, 'base64');
+	const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+	decipher.setAuthTag(buffer.subarray(buffer.length - TAG_LENGTH));
+
+	return Buffer.concat([
+		decipher.update(buffer.subarray(0, buffer.length - TAG_LENGTH)),
+		decipher.final(),
+	]);
+}
+
+/**
+ * Parse a base64 encoded 256-bit master key
+ */
+export function parseMasterKey(encoded: string | undefined): Result<Buffer, string> {
+	if (!encoded) return err('Master key is not set');
+
+	const key = Buffer.from(encoded, 'base64');
+	if (key.length !== KEY_LENGTH) {
+		return err(`Master key must be ${KEY_LENGTH} bytes, got ${key.length}`);
+	}
+
+	return ok(key);
+}
+
+export function encryptSecret(plaintext: string, masterKey: Buffer): EncryptedSecret {
+	const dataKey = randomBytes(KEY_LENGTH);
+
+	const secret = seal(Buffer.from(plaintext, 'utf8'), dataKey);
+	const wrapped = seal(dataKey, masterKey);
+
+	return {
+		version: ENVELOPE_VERSION,
+		ciphertext: secret.data,
+		iv: secret.iv,
+		wrapped_key: wrapped.data,
+		key_iv: wrapped.iv,
+	};
+}
+
+export function decryptSecret(secret: EncryptedSecret, masterKey: Buffer): Result<string, string> {
+	return Result.fromThrowable(
+		() => {
+			if (secret.version !== ENVELOPE_VERSION) {
+				throw new Error(`Unsupported envelope version ${secret.version}`);
+			}
+
+			const dataKey = open(secret.wrapped_key, secret.key_iv, masterKey);
+			return open(secret.ciphertext, secret.iv, dataKey).toString('utf8');
+		},
+		(e) => `Failed to decrypt secret: ${e instanceof Error ? e.message : e}`
+	)();
+}
@@ -5,12 +5,14 @@ import type { HTMLAttributes, HTMLButtonAttributes } from 'svelte/elements';
 
 type ToastData = {
 	content: string;
-	variant: 'info' | 'danger';
+	variant: 'info' | 'warning' | 'danger';
 };
 
 const classMap: Record<ToastData['variant'], string> = {
 	info: 'border border-blue-400 bg-gradient-to-b from-blue-500 to-blue-600',
 
+	warning: 'border border-amber-400 bg-gradient-to-b from-amber-500 to-amber-600',
+
 	danger: 'border border-red-400 bg-gradient-to-b from-red-500 to-red-600',
 };
 
@@ -0,0 +1,235 @@
+import { itemOffsets, visibleRange, type ItemRange } from '$lib/utils/virtual';
+import type { MaybeGetter } from 'melt';
+import { extract } from 'runed';
+import { untrack } from 'svelte';
+import { createAttachmentKey, type Attachment } from 'svelte/attachments';
+import type { HTMLAttributes } from 'svelte/elements';
+import { on } from 'svelte/events';
+import { SvelteMap } from 'svelte/reactivity';
+
+export type VirtualListProps<T> = {
+	items: MaybeGetter<T[]>;
+	getKey: (item: T) => string;
+	/** Size of an item until it has been rendered and measured */
+	estimateSize: (item: T) => number;
+	/** Items rendered beyond each edge of the viewport, defaults to 8 */
+	overscan?: MaybeGetter<number | undefined>;
+	/**
+	 * The element that scrolls when it isn't part of the same component, otherwise spread
+	 * `scroller` on it
+	 */
+	scrollElement?: MaybeGetter<HTMLElement | null | undefined>;
+	/**
+	 * For lists read from the end, like the messages of a chat: the view follows the end while
+	 * scrolled to it, and stays put when items are added at the start
+	 */
+	stickToEnd?: boolean;
+};
+
+/** The first item in view, kept at the same place when the items before it change size */
+type Anchor = { key: string; delta: number } | { key: null };
+
+/**
+ * Renders only the items of a long list that are in view. The list can sit anywhere in the
+ * scrolled content, items are measured once rendered so they can have any height.
+ */
+export class VirtualList<T> {
+	/* State */
+	scrollEl: HTMLElement | null = null;
+	listEl: HTMLElement | null = null;
+	scrollTop = $state(0);
+	viewportHeight = $state(0);
+	/** Distance from the top of the scrolled content to the top of the list */
+	listOffset = $state(0);
+	#sizes = new SvelteMap<string, number>();
+	#itemKeys = new WeakMap<Element, string>();
+	#itemObserver: ResizeObserver | null = null;
+	#anchor: Anchor | null = null;
+	#atEnd = false;
+
+	/* Props */
+	items: T[];
+	getKey: (item: T) => string;
+	estimateSize: (item: T) => number;
+	overscan: number;
+	stickToEnd: boolean;
+
+	/* Derived */
+	offsets: number[];
+	range: ItemRange;
+	/** The items to render, in order */
+	visible: T[];
+
+	constructor(props: VirtualListProps<T>) {
+		this.items = $derived(extract(props.items));
+		this.getKey = props.getKey;
+		this.estimateSize = props.estimateSize;
+		this.overscan = $derived(extract(props.overscan) ?? 8);
+		this.stickToEnd = props.stickToEnd ?? false;
+
+		this.offsets = $derived(
+			itemOffsets(
+				this.items.map((item) => this.#sizes.get(this.getKey(item)) ?? this.estimateSize(item))
+			)
+		);
+		this.range = $derived.by(() => {
+			const start = this.scrollTop - this.listOffset;
+			return visibleRange(this.offsets, start, start + this.viewportHeight, this.overscan);
+		});
+		this.visible = $derived(this.items.slice(this.range.start, this.range.end));
+
+		if (props.scrollElement !== undefined) {
+			$effect(() => {
+				const node = extract(props.scrollElement);
+				if (node) return this.#attachScroller(node);
+			});
+		}
+
+		// Runs once the list has been rendered with the new sizes
+		$effect(() => {
+			const offsets = this.offsets;
+			untrack(() => this.#restoreAnchor(offsets));
+		});
+	}
+
+	#measure = () => {
+		const scrollEl = this.scrollEl;
+		if (!scrollEl) return;
+
+		this.scrollTop = scrollEl.scrollTop;
+		this.viewportHeight = scrollEl.clientHeight;
+
+		if (this.listEl) {
+			const listTop = this.listEl.getBoundingClientRect().top;
+			this.listOffset = listTop - scrollEl.getBoundingClientRect().top + scrollEl.scrollTop;
+		}
+
+		this.#atEnd = scrollEl.scrollHeight - scrollEl.scrollTop - scrollEl.clientHeight < 2;
+
+		const viewportStart = this.scrollTop - this.listOffset;
+		// With the start of the list in view, items added there are meant to be seen
+		if (viewportStart <= 0 && !this.stickToEnd) {
+			this.#anchor = null;
+			return;
+		}
+
+		const { start } = visibleRange(this.offsets, viewportStart, viewportStart + 1);
+		const item = this.items[start];
+		this.#anchor = item
+			? { key: this.getKey(item), delta: this.offsets[start]! - viewportStart }
+			: { key: null };
+	};
+
+	#restoreAnchor(offsets: number[]) {
+		const scrollEl = this.scrollEl;
+		if (!scrollEl) return;
+
+		if (this.stickToEnd && this.#atEnd) {
+			this.scrollToEnd();
+			return;
+		}
+
+		const anchor = this.#anchor;
+		if (!anchor?.key) return;
+
+		const index = this.items.findIndex((item) => this.getKey(item) === anchor.key);
+		if (index === -1) return;
+
+		const scrollTop = this.listOffset + offsets[index]! - anchor.delta;
+		if (Math.abs(scrollTop - scrollEl.scrollTop) < 1) return;
+
+		scrollEl.scrollTop = scrollTop;
+		this.#measure();
+	}
+
+	scrollToEnd() {
+		const scrollEl = this.scrollEl;
+		if (!scrollEl) return;
+
+		scrollEl.scrollTop = scrollEl.scrollHeight;
+		this.#measure();
+	}
+
+	#attachScroller: Attachment<HTMLElement> = (node) => {
+		this.scrollEl = node;
+		// The anchor is kept here, the browser's own anchoring would move the view a second time
+		const overflowAnchor = node.style.overflowAnchor;
+		node.style.overflowAnchor = 'none';
+		this.#measure();
+
+		const removeListener = on(node, 'scroll', this.#measure, { passive: true });
+		const observer = new ResizeObserver(this.#measure);
+		observer.observe(node);
+
+		return () => {
+			removeListener();
+			observer.disconnect();
+			node.style.overflowAnchor = overflowAnchor;
+			if (this.scrollEl === node) this.scrollEl = null;
+		};
+	};
+
+	#attachList: Attachment<HTMLElement> = (node) => {
+		this.listEl = node;
+		this.#measure();
+
+		// Content above the list resizing moves it without scrolling
+		const observer = new ResizeObserver(this.#measure);
+		observer.observe(node);
+		if (node.parentElement) observer.observe(node.parentElement);
+
+		return () => {
+			observer.disconnect();
+			if (this.listEl === node) this.listEl = null;
+		};
+	};
+
+	#attachItem: Attachment<HTMLElement> = (node) => {
+		const key = node.dataset.virtualKey;
+		if (key === undefined) return;
+
+		this.#itemKeys.set(node, key);
+		this.#itemObserver ??= new ResizeObserver((entries) => {
+			for (const entry of entries) {
+				const entryKey = this.#itemKeys.get(entry.target);
+				const size = entry.borderBoxSize[0]?.blockSize;
+				if (entryKey === undefined || size === undefined) continue;
+				if (this.#sizes.get(entryKey) !== size) this.#sizes.set(entryKey, size);
+			}
+		});
+		this.#itemObserver.observe(node);
+
+		return () => this.#itemObserver?.unobserve(node);
+	};
+
+	// Kept the same across renders, so the attachments aren't run again on every scroll
+	#scrollerKey = createAttachmentKey();
+	#listKey = createAttachmentKey();
+	#itemKey = createAttachmentKey();
+
+	/** For the element that scrolls */
+	get scroller() {
+		return {
+			[this.#scrollerKey]: this.#attachScroller,
+		} as const satisfies HTMLAttributes<HTMLElement>;
+	}
+
+	/** For the element holding the items, the space of the ones not rendered is kept as padding */
+	get list() {
+		const { start, end } = this.range;
+		const total = this.offsets[this.offsets.length - 1]!;
+
+		return {
+			style: `padding-top: ${this.offsets[start]}px; padding-bottom: ${total - this.offsets[end]!}px;`,
+			[this.#listKey]: this.#attachList,
+		} as const satisfies HTMLAttributes<HTMLElement>;
+	}
+
+	/** For each rendered item, margins aren't measured so they belong inside it */
+	getItem(item: T) {
+		return {
+			'data-virtual-key': this.getKey(item),
+			[this.#itemKey]: this.#attachItem,
+		} as const satisfies HTMLAttributes<HTMLElement>;
+	}
+}
@@ -4,7 +4,8 @@ import { getFunctionName, type FunctionArgs, type FunctionReference } from 'conv
 import { extract, watch } from 'runed';
 
 export interface CachedQueryOptions {
-	cacheKey?: string;
+	/** Defaults to the query name and args, a getter keeps it in sync with the args */
+	cacheKey?: string | (() => string);
 	ttl?: number;
 	staleWhileRevalidate?: boolean;
 	enabled?: boolean;
@@ -33,7 +34,7 @@ export function useCachedQuery<Query extends FunctionReference<'query'>>(
 
 	// Generate cache key from query reference and args
 	const key = $derived(
-		cacheKey || `${getFunctionName(query)}:${JSON.stringify(extract(queryArgs))}`
+		extract(cacheKey) || `${getFunctionName(query)}:${JSON.stringify(extract(queryArgs))}`
 	);
 
 	// Get cached data
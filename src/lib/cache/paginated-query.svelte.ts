@@ -0,0 +1,170 @@
+import { useConvexClient } from 'convex-svelte';
+import type {
+	FunctionArgs,
+	FunctionReference,
+	FunctionReturnType,
+	PaginationOptions,
+	PaginationResult,
+} from 'convex/server';
+import { extract } from 'runed';
+import { untrack } from 'svelte';
+import { queryCache } from './cached-query.svelte';
+
+type PaginatedQuery = FunctionReference<
+	'query',
+	'public',
+	{ paginationOpts: PaginationOptions },
+	PaginationResult<unknown>
+>;
+
+export type PaginatedQueryArgs<Query extends PaginatedQuery> = Omit<
+	FunctionArgs<Query>,
+	'paginationOpts'
+>;
+
+export type PaginatedQueryItem<Query extends PaginatedQuery> =
+	FunctionReturnType<Query>['page'][number];
+
+export type PaginatedQueryStatus = 'loading' | 'can-load-more' | 'loading-more' | 'exhausted';
+
+export interface PaginatedQueryOptions {
+	pageSize: number;
+	/** Keep showing the results of the previous args until the new first page is there */
+	keepPreviousData?: boolean;
+	/** Keeps the first page in the session cache so it shows right away on the next visit */
+	cacheKey?: string | (() => string);
+	ttl?: number;
+}
+
+type Page<Item> = {
+	cursor: string | null;
+	result?: PaginationResult<Item>;
+};
+
+/**
+ * Subscribe to a paginated query a page at a time. Every page is its own subscription that
+ * continues from the cursor of the one before, so loaded pages stay live without asking for
+ * everything again. Changing the args, or a query failing with `InvalidCursor`, starts over
+ * from the first page.
+ */
+export function usePaginatedQuery<Query extends PaginatedQuery>(
+	query: Query,
+	queryArgs: PaginatedQueryArgs<Query> | (() => PaginatedQueryArgs<Query>),
+	options: PaginatedQueryOptions
+) {
+	type Item = PaginatedQueryItem<Query>;
+
+	const { pageSize, keepPreviousData = false, cacheKey, ttl = 7 * 24 * 60 * 60 * 1000 } = options;
+	const client = useConvexClient();
+
+	// Pages of the args `pagesId` was set for, can be the previous ones with `keepPreviousData`
+	let pages = $state<Page<Item>[]>([]);
+	let pagesId = -1;
+	let error = $state<Error>();
+
+	// Args subscribed to, set by the effect below
+	let current: { args: PaginatedQueryArgs<Query>; id: number } | null = null;
+	// By page index
+	let unsubscribers: (() => void)[] = [];
+	let nextId = 0;
+
+	const key = $derived(extract(cacheKey));
+
+	function subscribe(index: number, cursor: string | null, endCursor?: string) {
+		if (!current) return;
+		const { args, id } = current;
+
+		const unsubscribe = client.onUpdate(
+			query,
+			// `id` keeps the subscriptions of different args apart when their cursors are equal
+			{
+				...args,
+				paginationOpts: { numItems: pageSize, cursor, endCursor, id },
+			} as unknown as FunctionArgs<Query>,
+			(result: PaginationResult<Item>) => {
+				if (current?.id !== id) return;
+				if (pagesId !== id) {
+					pages = [];
+					pagesId = id;
+				}
+
+				pages[index] = { cursor, result };
+				if (index === 0 && key) queryCache.set(key, $state.snapshot(result), ttl);
+			},
+			(e: Error) => {
+				if (current?.id !== id) return;
+				// The cursors no longer point into the results, e.g. a message they continue from
+				// left the branch being shown
+				if (e.message.includes('InvalidCursor')) start(current.args);
+				else error = e;
+			}
+		);
+		// Replacing a subscription keeps its results shown until the new one has answered
+		unsubscribers[index]?.();
+		unsubscribers[index] = unsubscribe;
+	}
+
+	function stop() {
+		for (const unsubscribe of unsubscribers) unsubscribe();
+		unsubscribers = [];
+		current = null;
+	}
+
+	function start(args: PaginatedQueryArgs<Query>) {
+		stop();
+		current = { args, id: nextId++ };
+		error = undefined;
+		if (!keepPreviousData) {
+			pages = [];
+			pagesId = current.id;
+		}
+		subscribe(0, null);
+	}
+
+	$effect(() => {
+		const args = $state.snapshot(extract(queryArgs)) as PaginatedQueryArgs<Query>;
+		untrack(() => start(args));
+
+		return stop;
+	});
+
+	const cached = $derived(
+		pages.length === 0 && key ? (queryCache.get(key) as PaginationResult<Item>) : undefined
+	);
+	const shown = $derived<Page<Item>[]>(cached ? [{ cursor: null, result: cached }] : pages);
+
+	const status = $derived.by((): PaginatedQueryStatus => {
+		const last = shown.at(-1);
+		if (!last) return 'loading';
+		if (!last.result) return 'loading-more';
+		return last.result.isDone ? 'exhausted' : 'can-load-more';
+	});
+
+	return {
+		get results(): Item[] {
+			return shown.flatMap((page) => page.result?.page ?? []);
+		},
+		get status() {
+			return status;
+		},
+		get isLoading() {
+			return status === 'loading';
+		},
+		get error() {
+			return error;
+		},
+		/** Ask for the page after the last one, does nothing until that one is loaded */
+		loadMore() {
+			const index = pages.length - 1;
+			const last = pages[index];
+			if (!current || pagesId !== current.id || !last?.result || last.result.isDone) return;
+
+			// The last page ends where the next one starts from now on, whatever is added to it
+			const { continueCursor } = last.result;
+			subscribe(index, last.cursor, continueCursor);
+
+			pages.push({ cursor: continueCursor });
+			subscribe(index + 1, continueCursor);
+		},
+	};
+}
@@ -0,0 +1 @@
+export { default as TagButton } from './tag-button.svelte';
@@ -0,0 +1,31 @@
+import type { Doc } from '$lib/backend/convex/_generated/dataModel';
+import {
+	conversationToHtml,
+	conversationToMarkdown,
+	exportedActivePath,
+	type ConversationExport,
+	type ExportFormat,
+} from '$lib/utils/conversation-export';
+import { md, sanitizeHtml } from '$lib/utils/markdown-it';
+
+/**
+ * Contents of the export file in the given format
+ */
+export async function renderConversationExport(
+	exported: ConversationExport,
+	messages: Doc<'messages'>[],
+	format: ExportFormat
+): Promise<string> {
+	if (format === 'json') return JSON.stringify(exported, null, 2);
+	if (format === 'markdown') return conversationToMarkdown(exported);
+
+	// Finished replies were already rendered with their code highlighted
+	const renderedContent = new Map<string, string>();
+	for (const message of exportedActivePath(exported)) {
+		const stored = messages.find((m) => m._id === message.id)?.content_html;
+		const html = stored || (await md.renderAsync(message.content));
+		renderedContent.set(message.id, sanitizeHtml(html));
+	}
+
+	return conversationToHtml(exported, renderedContent);
+}
@@ -0,0 +1,146 @@
+import { OpenRouterProvider, type ModelInfo } from '@keplersystems/kepler-ai-sdk';
+import { ResultAsync } from 'neverthrow';
+import { Provider } from '$lib/types';
+import { getCustomModelId } from '$lib/backend/convex/user_custom_providers';
+import type { ProviderConfig } from './model-manager';
+
+export interface CustomProviderConfig extends ProviderConfig {
+	/** Unique per user, used as the model id prefix */
+	name: string;
+	baseURL: string;
+	/** When empty, models are discovered from the endpoint's `/models` route */
+	models: string[];
+}
+
+type Endpoint = {
+	config: CustomProviderConfig;
+	// OpenRouterProvider is a plain OpenAI-compatible client once given a baseURL
+	client: OpenRouterProvider;
+};
+
+// Local servers (Ollama, LM Studio...) usually don't need a key, but the OpenAI client requires one
+const NO_KEY_PLACEHOLDER = 'not-needed';
+
+// A slow endpoint would otherwise hold up every generation, which checks the model is available
+const DISCOVERY_TIMEOUT_MS = 5_000;
+const DISCOVERY_CACHE_TTL = 5 * 60 * 1000;
+// Failures are kept for less long, so a server that was down is picked up again soon
+const DISCOVERY_FAILURE_TTL = 30 * 1000;
+
+// Shared across requests, a provider is created for each one. Keyed by url and key
+const discoveryCache = new Map<string, { models: string[]; expiresAt: number }>();
+
+/**
+ * Routes requests to one of the user's OpenAI-compatible endpoints.
+ *
+ * Every endpoint is registered under the single `custom` provider and its models are
+ * namespaced as `<endpoint name>/<model>` so they never collide with other providers.
+ */
+export class CustomEndpointsProvider {
+	readonly name = Provider.Custom;
+	private endpoints = new Map<string, Endpoint>();
+
+	constructor(configs: CustomProviderConfig[]) {
+		for (const config of configs) {
+			this.endpoints.set(config.name, {
+				config,
+				client: new OpenRouterProvider({
+					apiKey: config.apiKey || NO_KEY_PLACEHOLDER,
+					baseURL: config.baseURL,
+				}),
+			});
+		}
+	}
+
+	private resolve(modelId: string): { endpoint: Endpoint; model: string } {
+		const separator = modelId.indexOf('/');
+		const endpoint = separator === -1 ? undefined : this.endpoints.get(modelId.slice(0, separator));
+
+		if (!endpoint) throw new Error(`No custom endpoint found for model ${modelId}`);
+
+		return { endpoint, model: modelId.slice(separator + 1) };
+	}
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any -- request types come from the SDK
+	async generateCompletion(request: any) {
+		const { endpoint, model } = this.resolve(request.model);
+		return endpoint.client.generateCompletion({ ...request, model });
+	}
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any -- request types come from the SDK
+	async *streamCompletion(request: any) {
+		const { endpoint, model } = this.resolve(request.model);
+		yield* endpoint.client.streamCompletion({ ...request, model });
+	}
+
+	async listModels(): Promise<ModelInfo[]> {
+		const models = await Promise.all(
+			Array.from(this.endpoints.values()).map(async ({ config }) => {
+				const ids = config.models.length > 0 ? config.models : await this.discoverModels(config);
+				return ids.map((id) => this.toModelInfo(config, id));
+			})
+		);
+
+		return models.flat();
+	}
+
+	async getModel(modelId: string): Promise<ModelInfo | null> {
+		const models = await this.listModels();
+		return models.find((m) => m.id === modelId) ?? null;
+	}
+
+	private async discoverModels(config: CustomProviderConfig): Promise<string[]> {
+		const cacheKey = `${config.baseURL}\n${config.apiKey}`;
+		const cached = discoveryCache.get(cacheKey);
+		if (cached && cached.expiresAt > Date.now()) return cached.models;
+
+		const result = await ResultAsync.fromPromise(
+			(async () => {
+				const res = await fetch(`${config.baseURL}/models`, {
+					headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+					signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+				});
+
+				if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+
+				const { data } = (await res.json()) as { data?: { id: string }[] };
+				return (data ?? []).map((m) => m.id);
+			})(),
+			(e) => `Failed to discover models from ${config.name}: ${e}`
+		);
+
+		if (result.isErr()) {
+			console.warn(result.error);
+			discoveryCache.set(cacheKey, { models: [], expiresAt: Date.now() + DISCOVERY_FAILURE_TTL });
+			return [];
+		}
+
+		discoveryCache.set(cacheKey, {
+			models: result.value,
+			expiresAt: Date.now() + DISCOVERY_CACHE_TTL,
+		});
+		return result.value;
+	}
+
+	private toModelInfo(config: CustomProviderConfig, model: string): ModelInfo {
+		return {
+			id: getCustomModelId({ name: config.name, model }),
+			provider: Provider.Custom,
+			name: `${model} (${config.name})`,
+			description: `Served by ${config.baseURL}`,
+			contextWindow: 8192,
+			// We can't know what a self-hosted model supports, assume a plain chat model
+			capabilities: {
+				streaming: true,
+				functionCalling: false,
+				vision: false,
+				audio: false,
+				embeddings: false,
+				reasoning: false,
+				video: false,
+				documents: false,
+			},
+			metadata: { baseURL: config.baseURL },
+		};
+	}
+}
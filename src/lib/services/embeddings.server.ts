@@ -0,0 +1,101 @@
+import { CohereProvider, MistralProvider, OpenAIProvider } from '@keplersystems/kepler-ai-sdk';
+import { ConvexHttpClient } from 'convex/browser';
+import { err, okAsync, Result, ResultAsync } from 'neverthrow';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import { EMBEDDING_DIMENSIONS } from '$lib/types';
+import { fitDimensions } from '$lib/utils/vector';
+import type { UserApiKeys } from './model-manager';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+/** Embedding models only read the start of long messages */
+const MAX_INPUT_CHARS = 8000;
+
+type EmbeddingProvider = {
+	key: keyof UserApiKeys;
+	model: string;
+	create: (apiKey: string) => {
+		generateEmbedding(request: { model: string; input: string[] }): Promise<{
+			embeddings: number[][];
+		}>;
+	};
+};
+
+// In order of preference when the user has several of the keys
+const EMBEDDING_PROVIDERS: EmbeddingProvider[] = [
+	{
+		key: 'openai',
+		model: 'text-embedding-3-small',
+		create: (apiKey) => new OpenAIProvider({ apiKey }),
+	},
+	{
+		key: 'mistral',
+		model: 'mistral-embed',
+		create: (apiKey) => new MistralProvider({ apiKey }),
+	},
+	{
+		key: 'cohere',
+		model: 'embed-english-v3.0',
+		create: (apiKey) => new CohereProvider({ apiKey }),
+	},
+];
+
+export type EmbeddingModel = {
+	/** Stored along with the vectors, e.g. `openai/text-embedding-3-small` */
+	id: string;
+	embed: (texts: string[]) => ResultAsync<number[][], string>;
+};
+
+/**
+ * The embedding model of the first provider the user has a key for
+ */
+export function getEmbeddingModel(keys: UserApiKeys): EmbeddingModel | null {
+	const provider = EMBEDDING_PROVIDERS.find((p) => keys[p.key]);
+	if (!provider) return null;
+
+	const adapter = provider.create(keys[provider.key]!);
+
+	return {
+		id: `${provider.key}/${provider.model}`,
+		embed: (texts) =>
+			ResultAsync.fromPromise(
+				adapter.generateEmbedding({
+					model: provider.model,
+					input: texts.map((text) => text.slice(0, MAX_INPUT_CHARS)),
+				}),
+				(e) => `Failed to create embeddings: ${e}`
+			).andThen(({ embeddings }) =>
+				embeddings.length === texts.length
+					? Result.combine(embeddings.map((e) => fitDimensions(e, EMBEDDING_DIMENSIONS)))
+					: err(`Expected ${texts.length} embeddings, got ${embeddings.length}`)
+			),
+	};
+}
+
+/**
+ * Embed messages and store the vectors for semantic search
+ */
+export function indexMessages(args: {
+	sessionToken: string;
+	model: EmbeddingModel;
+	messages: { id: Id<'messages'>; content: string }[];
+}): ResultAsync<void, string> {
+	const messages = args.messages.filter((m) => m.content.trim());
+	if (messages.length === 0) return okAsync(undefined);
+
+	return args.model.embed(messages.map((m) => m.content)).andThen((embeddings) =>
+		ResultAsync.fromPromise(
+			client.mutation(api.message_embeddings.store, {
+				session_token: args.sessionToken,
+				model: args.model.id,
+				embeddings: messages.map((message, i) => ({
+					message_id: message.id,
+					embedding: embeddings[i]!,
+				})),
+			}),
+			(e) => `Failed to store embeddings: ${e}`
+		).map(() => undefined)
+	);
+}
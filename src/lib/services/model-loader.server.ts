@@ -1,11 +1,7 @@
-import { ConvexHttpClient } from 'convex/browser';
-import { PUBLIC_CONVEX_URL } from '$env/static/public';
-import { api } from '$lib/backend/convex/_generated/api';
 import { Provider } from '$lib/types';
 import { createModelManager } from './model-manager';
-import type { UserApiKeys } from './model-manager';
+import { getUserApiKeys, getUserCustomProviders } from './user-keys.server';
 import type { ModelInfo } from '@keplersystems/kepler-ai-sdk';
-import { ResultAsync } from 'neverthrow';
 
 export interface MultiProviderModels {
 	[Provider.OpenAI]?: ModelInfo[];
@@ -14,10 +10,9 @@ export interface MultiProviderModels {
 	[Provider.Mistral]?: ModelInfo[];
 	[Provider.Cohere]?: ModelInfo[];
 	[Provider.OpenRouter]?: ModelInfo[];
+	[Provider.Custom]?: ModelInfo[];
 }
 
-const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
-
 // Cache models for 10 minutes to avoid excessive API calls
 const MODEL_CACHE_TTL = 10 * 60 * 1000;
 const modelCache = new Map<string, { models: MultiProviderModels; timestamp: number }>();
@@ -37,16 +32,21 @@ export async function loadUserModels(sessionToken: string): Promise<MultiProvide
 
 	try {
 		// Get user's API keys
-		const userApiKeys = await getUserApiKeys(sessionToken);
-		console.log('getUserApiKeys result:', userApiKeys);
-		if (!userApiKeys) {
-			console.log('No user API keys found');
+		const [userApiKeysResult, customProvidersResult] = await Promise.all([
+			getUserApiKeys(sessionToken),
+			getUserCustomProviders(sessionToken),
+		]);
+		if (userApiKeysResult.isErr()) {
+			console.error('Failed to get user API keys:', userApiKeysResult.error);
 			return {};
 		}
 
+		const userApiKeys = userApiKeysResult.value;
+		const customProviders = customProvidersResult.unwrapOr([]);
+
 		// Initialize ModelManager with user's API keys
 		const modelManager = createModelManager();
-		modelManager.initializeProviders(userApiKeys);
+		modelManager.initializeProviders(userApiKeys, customProviders);
 		console.log('Enabled providers:', modelManager.getEnabledProviders());
 
 		// Load models from all enabled providers
@@ -105,33 +105,6 @@ export function clearModelCache(sessionToken?: string): void {
 	}
 }
 
-/**
- * Get user's API keys from Convex
- */
-async function getUserApiKeys(sessionToken: string): Promise<UserApiKeys | null> {
-	const keysResult = await ResultAsync.fromPromise(
-		client.query(api.user_keys.all, {
-			session_token: sessionToken,
-		}),
-		(e) => `Failed to get user API keys: ${e}`
-	);
-
-	if (keysResult.isErr()) {
-		console.error('Failed to get user API keys:', keysResult.error);
-		return null;
-	}
-
-	const keys = keysResult.value;
-	return {
-		openai: keys.openai,
-		anthropic: keys.anthropic,
-		google: keys.gemini,
-		mistral: keys.mistral,
-		cohere: keys.cohere,
-		openrouter: keys.openrouter,
-	};
-}
-
 /**
  * Get models for a specific provider (useful for partial loading)
  */
@@ -140,13 +113,19 @@ export async function loadProviderModels(
 	provider: Provider
 ): Promise<ModelInfo[]> {
 	try {
-		const userApiKeys = await getUserApiKeys(sessionToken);
-		if (!userApiKeys) {
+		const [userApiKeysResult, customProvidersResult] = await Promise.all([
+			getUserApiKeys(sessionToken),
+			getUserCustomProviders(sessionToken),
+		]);
+		if (userApiKeysResult.isErr()) {
 			return [];
 		}
 
+		const userApiKeys = userApiKeysResult.value;
+		const customProviders = customProvidersResult.unwrapOr([]);
+
 		const modelManager = createModelManager();
-		modelManager.initializeProviders(userApiKeys);
+		modelManager.initializeProviders(userApiKeys, customProviders);
 
 		if (!modelManager.hasProviderEnabled(provider)) {
 			return [];
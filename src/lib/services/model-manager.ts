@@ -10,6 +10,12 @@ import {
 	type ModelInfo,
 } from '@keplersystems/kepler-ai-sdk';
 import type { Provider } from '$lib/types';
+import { CustomEndpointsProvider, type CustomProviderConfig } from './custom-provider';
+
+export type { CustomProviderConfig };
+
+/** What a provider's `generateCompletion` resolves to */
+export type CompletionResult = Awaited<ReturnType<ProviderAdapter['generateCompletion']>>;
 
 export interface ProviderConfig {
 	apiKey: string;
@@ -33,7 +39,10 @@ export class ChatModelManager {
 		this.modelManager = new ModelManager();
 	}
 
-	initializeProviders(userApiKeys: UserApiKeys): void {
+	initializeProviders(
+		userApiKeys: UserApiKeys,
+		customProviders: CustomProviderConfig[] = []
+	): void {
 		this.enabledProviders.clear();
 
 		if (userApiKeys.openai) {
@@ -83,6 +92,12 @@ export class ChatModelManager {
 			this.modelManager.addProvider(provider);
 			this.enabledProviders.set('openrouter', provider);
 		}
+
+		if (customProviders.length > 0) {
+			const provider = new CustomEndpointsProvider(customProviders) as unknown as ProviderAdapter;
+			this.modelManager.addProvider(provider);
+			this.enabledProviders.set('custom', provider);
+		}
 	}
 
 	async getModel(modelId: string): Promise<ModelInfo | null> {
@@ -97,6 +112,21 @@ export class ChatModelManager {
 		return await this.modelManager.listModels();
 	}
 
+	/**
+	 * A fast, cheap model for background tasks such as titles and tag suggestions
+	 */
+	async getUtilityModel(): Promise<ModelInfo | null> {
+		const availableModels = await this.listAvailableModels();
+
+		return (
+			availableModels.find((model) => model.id.includes('gemini-2.5-flash-lite')) ||
+			availableModels.find((model) => model.id.includes('kimi-k2')) ||
+			availableModels.find((model) => model.id.includes('gpt-5-mini')) ||
+			availableModels[0] ||
+			null
+		);
+	}
+
 	async getModelsByProvider(provider: Provider): Promise<ModelInfo[]> {
 		if (!this.hasProviderEnabled(provider)) {
 			return [];
@@ -0,0 +1,116 @@
+import { err, ok, Result, ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { evaluate } from '$lib/utils/math';
+
+export interface ToolContext {
+	conversationId: string;
+	sessionToken: string;
+	abortSignal?: AbortSignal;
+}
+
+export interface ServerTool<Schema extends z.ZodType = z.ZodType> {
+	name: string;
+	description: string;
+	parameters: Schema;
+	execute: (args: z.infer<Schema>, ctx: ToolContext) => Promise<string>;
+}
+
+/** Shape the provider adapters expect in `CompletionRequest.tools` */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>;
+}
+
+function defineTool<Schema extends z.ZodType>(tool: ServerTool<Schema>): ServerTool<Schema> {
+	return tool;
+}
+
+const getCurrentTime = defineTool({
+	name: 'get_current_time',
+	description:
+		'Get the current date and time. Use this whenever the answer depends on today’s date or the current time.',
+	parameters: z.object({
+		timezone: z
+			.string()
+			.describe('IANA timezone name, e.g. "Europe/Paris". Defaults to UTC.')
+			.optional(),
+	}),
+	execute: async ({ timezone }) => {
+		const timeZone = timezone ?? 'UTC';
+		const now = new Date();
+
+		const formatted = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			dateStyle: 'full',
+			timeStyle: 'long',
+		}).format(now);
+
+		return JSON.stringify({ timezone: timeZone, iso: now.toISOString(), formatted });
+	},
+});
+
+const calculate = defineTool({
+	name: 'calculate',
+	description:
+		'Evaluate an arithmetic expression exactly. Supports + - * / % ^ and parentheses. Use this instead of doing math in your head.',
+	parameters: z.object({
+		expression: z.string().describe('The expression to evaluate, e.g. "(3 + 4) * 2 ^ 3"'),
+	}),
+	execute: async ({ expression }) => {
+		const result = evaluate(expression);
+		if (result.isErr()) throw new Error(result.error);
+
+		return String(result.value);
+	},
+});
+
+const tools: ServerTool[] = [getCurrentTime, calculate];
+
+export const toolRegistry = new Map(tools.map((tool) => [tool.name, tool]));
+
+/**
+ * Get the definitions of every registered tool, ready to be sent to a provider
+ */
+export function getToolDefinitions(): ToolDefinition[] {
+	return tools.map((tool) => ({
+		name: tool.name,
+		description: tool.description,
+		parameters: z.toJSONSchema(tool.parameters) as Record<string, unknown>,
+	}));
+}
+
+/**
+ * Parse the raw JSON arguments the model streamed for a tool call
+ */
+export function parseToolArguments(rawArguments: string): Result<unknown, string> {
+	if (rawArguments.trim() === '') return ok({});
+
+	return Result.fromThrowable(
+		() => JSON.parse(rawArguments) as unknown,
+		() => `Invalid JSON arguments: ${rawArguments}`
+	)();
+}
+
+/**
+ * Validate and run a tool call requested by the model
+ */
+export async function executeTool(
+	call: { name: string; arguments: string },
+	ctx: ToolContext
+): Promise<Result<string, string>> {
+	const tool = toolRegistry.get(call.name);
+	if (!tool) return err(`Unknown tool: ${call.name}`);
+
+	const argsResult = parseToolArguments(call.arguments);
+	if (argsResult.isErr()) return err(argsResult.error);
+
+	const parsed = tool.parameters.safeParse(argsResult.value);
+	if (!parsed.success) return err(`Invalid arguments: ${z.prettifyError(parsed.error)}`);
+
+	if (ctx.abortSignal?.aborted) return err('Cancelled by user');
+
+	return ResultAsync.fromPromise(tool.execute(parsed.data, ctx), (e) =>
+		e instanceof Error ? e.message : `${e}`
+	);
+}
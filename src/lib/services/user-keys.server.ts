@@ -0,0 +1,110 @@
+import { ConvexHttpClient } from 'convex/browser';
+import { err, ok, Result, ResultAsync } from 'neverthrow';
+import { env } from '$env/dynamic/private';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import {
+	decryptSecret,
+	encryptSecret,
+	parseMasterKey,
+	type EncryptedSecret,
+} from '$lib/backend/envelope';
+import type { Provider } from '$lib/types';
+import { maskSecret } from '$lib/utils/strings';
+import type { CustomProviderConfig, UserApiKeys } from './model-manager';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+function getMasterKey(): Result<Buffer, string> {
+	return parseMasterKey(env.API_KEY_ENCRYPTION_KEY).mapErr(
+		(e) => `API_KEY_ENCRYPTION_KEY is invalid: ${e}`
+	);
+}
+
+/**
+ * Encrypt a key for storage, along with the masked preview shown to the client
+ */
+export function encryptApiKey(
+	key: string
+): Result<{ encrypted_key: EncryptedSecret; preview: string }, string> {
+	return getMasterKey().map((masterKey) => ({
+		encrypted_key: encryptSecret(key, masterKey),
+		preview: maskSecret(key),
+	}));
+}
+
+function decryptApiKey(secret: EncryptedSecret): Result<string, string> {
+	return getMasterKey().andThen((masterKey) => decryptSecret(secret, masterKey));
+}
+
+/**
+ * Get the user's decrypted provider keys. Never send the result to the client.
+ */
+export async function getDecryptedKeys(
+	sessionToken: string
+): Promise<Result<Partial<Record<Provider, string>>, string>> {
+	const keysResult = await ResultAsync.fromPromise(
+		client.query(api.user_keys.allEncrypted, {
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to get user API keys: ${e}`
+	);
+
+	if (keysResult.isErr()) {
+		return err(keysResult.error);
+	}
+
+	const keys: Partial<Record<Provider, string>> = {};
+
+	for (const { provider, encrypted_key } of keysResult.value) {
+		const decrypted = decryptApiKey(encrypted_key);
+		if (decrypted.isErr()) return err(`Failed to decrypt ${provider} key: ${decrypted.error}`);
+
+		keys[provider] = decrypted.value;
+	}
+
+	return ok(keys);
+}
+
+export async function getUserApiKeys(sessionToken: string): Promise<Result<UserApiKeys, string>> {
+	const keysResult = await getDecryptedKeys(sessionToken);
+
+	return keysResult.map((keys) => ({
+		openai: keys.openai,
+		anthropic: keys.anthropic,
+		google: keys.gemini,
+		mistral: keys.mistral,
+		cohere: keys.cohere,
+		openrouter: keys.openrouter,
+	}));
+}
+
+export async function getUserCustomProviders(
+	sessionToken: string
+): Promise<Result<CustomProviderConfig[], string>> {
+	const providersResult = await ResultAsync.fromPromise(
+		client.query(api.user_custom_providers.allEncrypted, {
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to get custom providers: ${e}`
+	);
+
+	if (providersResult.isErr()) {
+		return err(providersResult.error);
+	}
+
+	return Result.combine(
+		providersResult.value.map((provider) => {
+			const keyResult: Result<string, string> = provider.encrypted_key
+				? decryptApiKey(provider.encrypted_key)
+				: ok('');
+
+			return keyResult.map((apiKey) => ({
+				name: provider.name,
+				baseURL: provider.base_url,
+				apiKey,
+				models: provider.models,
+			}));
+		})
+	);
+}
@@ -0,0 +1,20 @@
+import { Context, type Getter } from 'runed';
+
+class ChatScrollState {
+	constructor(readonly getElement: Getter<HTMLElement | undefined>) {}
+
+	/** The element the messages of the conversation scroll in */
+	get element() {
+		return this.getElement();
+	}
+}
+
+const ctx = new Context<ChatScrollState>('chat-scroll');
+
+export function setupChatScroll(getElement: Getter<HTMLElement | undefined>) {
+	return ctx.set(new ChatScrollState(getElement));
+}
+
+export function useChatScroll() {
+	return ctx.get();
+}
@@ -4,4 +4,7 @@ export const settings = createPersistedObj('settings', {
 	modelId: undefined as string | undefined,
 	webSearchEnabled: false,
 	reasoningEffort: 'low' as 'low' | 'medium' | 'high',
+	/** Send messages to every model in `compareModelIds` and show the answers side by side */
+	compareMode: false,
+	compareModelIds: [] as string[],
 });
@@ -7,6 +7,8 @@ export const Provider = {
 	Mistral: 'mistral',
 	Cohere: 'cohere',
 	OpenRouter: 'openrouter',
+	/** User-defined OpenAI-compatible endpoints (vLLM, Ollama, LM Studio...) */
+	Custom: 'custom',
 } as const;
 
 export type Provider = (typeof Provider)[keyof typeof Provider];
@@ -73,4 +75,33 @@ export const PROVIDER_META: Record<Provider, ProviderMeta> = {
 		description: 'Access to 300+ models through OpenRouter',
 		placeholder: 'sk-or-...',
 	},
+	[Provider.Custom]: {
+		title: 'Custom Endpoints',
+		link: 'https://platform.openai.com/docs/api-reference/chat',
+		description: 'Self-hosted OpenAI-compatible endpoints such as vLLM, Ollama or LM Studio',
+		placeholder: 'http://localhost:11434/v1',
+	},
 };
+
+/** How often the instance running a generation job should check in */
+export const HEARTBEAT_INTERVAL_MS = 3_000;
+/** A running generation job that hasn't checked in for this long is considered dead */
+export const STALE_JOB_MS = 60_000;
+
+/** How many models can answer the same message side by side */
+export const COMPARE_MODEL_LIMITS = { min: 2, max: 4 } as const;
+
+/** Days a deleted account can still be restored before all of its data is removed */
+export const ACCOUNT_DELETION_GRACE_DAYS = 7;
+
+/**
+ * Length of the vectors in the semantic search index. Providers returning longer vectors
+ * are shortened, see `$lib/utils/vector`
+ */
+export const EMBEDDING_DIMENSIONS = 1024;
+
+/** Conversations changed by one bulk action request, larger selections are sent in chunks */
+export const BULK_CONVERSATION_LIMIT = 100;
+
+/** Messages saved by one import request, longer conversations are sent in chunks */
+export const IMPORT_MESSAGE_BATCH_SIZE = 200;
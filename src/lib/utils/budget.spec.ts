@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { checkBudget, getDayKey, getMonthStart, hasBudget } from './budget';
+
+const spend = { total: 9, by_provider: { openai: 6, anthropic: 3 } };
+
+describe('checkBudget', () => {
+	it('allows everything without settings or limits', () => {
+		expect(checkBudget({ settings: null, spend, provider: 'openai' }).status).toBe('ok');
+		expect(checkBudget({ settings: {}, spend, provider: 'openai' }).status).toBe('ok');
+	});
+
+	it('warns once the warning percentage is reached', () => {
+		expect(
+			checkBudget({ settings: { monthly_budget_usd: 10 }, spend, provider: 'openai' }).status
+		).toBe('warning');
+		expect(
+			checkBudget({
+				settings: { monthly_budget_usd: 10, budget_warning_percent: 95 },
+				spend,
+				provider: 'openai',
+			}).status
+		).toBe('ok');
+	});
+
+	it('blocks once the monthly budget is reached', () => {
+		const result = checkBudget({ settings: { monthly_budget_usd: 9 }, spend, provider: 'openai' });
+
+		expect(result.status).toBe('exceeded');
+	});
+
+	it('only applies provider budgets to that provider', () => {
+		const settings = { provider_budgets: [{ provider: 'openai', limit_usd: 5 }] };
+
+		expect(checkBudget({ settings, spend, provider: 'openai' }).status).toBe('exceeded');
+		expect(checkBudget({ settings, spend, provider: 'anthropic' }).status).toBe('ok');
+	});
+
+	it('prefers a hard limit over a warning', () => {
+		const result = checkBudget({
+			settings: {
+				monthly_budget_usd: 10,
+				provider_budgets: [{ provider: 'openai', limit_usd: 6 }],
+			},
+			spend,
+			provider: 'openai',
+		});
+
+		expect(result.status).toBe('exceeded');
+	});
+});
+
+describe('hasBudget', () => {
+	it('is only true once a cap is set', () => {
+		expect(hasBudget(null)).toBe(false);
+		expect(hasBudget({ budget_warning_percent: 50, provider_budgets: [] })).toBe(false);
+		expect(hasBudget({ monthly_budget_usd: 0 })).toBe(true);
+		expect(hasBudget({ provider_budgets: [{ provider: 'openai', limit_usd: 5 }] })).toBe(true);
+	});
+});
+
+describe('getMonthStart', () => {
+	it('returns midnight UTC on the first of the month', () => {
+		expect(getMonthStart(Date.UTC(2025, 6, 17, 13, 45))).toBe(Date.UTC(2025, 6, 1));
+	});
+});
+
+describe('getDayKey', () => {
+	it('returns the UTC day', () => {
+		expect(getDayKey(Date.UTC(2025, 6, 17, 23, 59))).toBe('2025-07-17');
+		expect(getDayKey(Date.UTC(2025, 6, 1))).toBe('2025-07-01');
+	});
+});
@@ -0,0 +1,94 @@
+export interface BudgetSettings {
+	monthly_budget_usd?: number;
+	/** Percentage of a limit at which the user starts getting warned, defaults to 80 */
+	budget_warning_percent?: number;
+	provider_budgets?: { provider: string; limit_usd: number }[];
+}
+
+export interface MonthlySpend {
+	total: number;
+	by_provider: Record<string, number>;
+}
+
+export type BudgetStatus = { status: 'ok' } | { status: 'warning' | 'exceeded'; message: string };
+
+export const DEFAULT_BUDGET_WARNING_PERCENT = 80;
+
+function formatUsd(value: number) {
+	return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Start of the current calendar month in UTC, which is when budgets reset
+ */
+export function getMonthStart(now = Date.now()): number {
+	const date = new Date(now);
+	return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * UTC day of a timestamp as `YYYY-MM-DD`, usage is added up per day
+ */
+export function getDayKey(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether any cap is set, the spend doesn't need to be looked up otherwise
+ */
+export function hasBudget(settings: BudgetSettings | null | undefined): boolean {
+	return (
+		settings?.monthly_budget_usd !== undefined || (settings?.provider_budgets?.length ?? 0) > 0
+	);
+}
+
+/**
+ * Check the spend of this month against the user's global and per-provider caps.
+ * The most severe status wins.
+ */
+export function checkBudget({
+	settings,
+	spend,
+	provider,
+}: {
+	settings: BudgetSettings | null | undefined;
+	spend: MonthlySpend;
+	provider: string;
+}): BudgetStatus {
+	if (!settings) return { status: 'ok' };
+
+	const warningRatio = (settings.budget_warning_percent ?? DEFAULT_BUDGET_WARNING_PERCENT) / 100;
+
+	const limits = [
+		{ label: 'monthly budget', limit: settings.monthly_budget_usd, spent: spend.total },
+		...(settings.provider_budgets ?? [])
+			.filter((b) => b.provider === provider)
+			.map((b) => ({
+				label: `monthly ${b.provider} budget`,
+				limit: b.limit_usd,
+				spent: spend.by_provider[b.provider] ?? 0,
+			})),
+	];
+
+	let warning: BudgetStatus | null = null;
+
+	for (const { label, limit, spent } of limits) {
+		if (limit === undefined) continue;
+
+		if (spent >= limit) {
+			return {
+				status: 'exceeded',
+				message: `You have reached your ${label} of ${formatUsd(limit)} (${formatUsd(spent)} spent). Raise it in Account > Usage to keep chatting.`,
+			};
+		}
+
+		if (!warning && spent >= limit * warningRatio) {
+			warning = {
+				status: 'warning',
+				message: `You have used ${formatUsd(spent)} of your ${label} of ${formatUsd(limit)}.`,
+			};
+		}
+	}
+
+	return warning ?? { status: 'ok' };
+}
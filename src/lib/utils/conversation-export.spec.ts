@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+	ConversationExportSchema,
+	conversationToHtml,
+	conversationToMarkdown,
+	exportedActivePath,
+	exportFileName,
+	type ConversationExport,
+	type ExportedMessage,
+} from './conversation-export';
+
+let time = 0;
+function message(
+	id: string,
+	role: ExportedMessage['role'],
+	content: string,
+	rest: Partial<ExportedMessage> = {}
+): ExportedMessage {
+	return { id, role, content, created_at: ++time, version: 0, ...rest };
+}
+
+function conversation(
+	messages: ExportedMessage[],
+	activeLeafId?: string,
+	title = 'Sorting <arrays>'
+): ConversationExport {
+	return {
+		version: 1,
+		exported_at: 0,
+		conversation: { id: 'c1', title, created_at: 0, active_leaf_id: activeLeafId },
+		messages,
+	};
+}
+
+const branched = conversation(
+	[
+		message('q', 'user', 'How do I sort?'),
+		message('a1', 'assistant', 'First answer', { parent_id: 'q' }),
+		message('a2', 'assistant', 'Use `sort()`', {
+			parent_id: 'q',
+			version: 1,
+			model_id: 'gpt-5',
+			reasoning: 'Think about it',
+			token_count: 42,
+			cost_usd: 0.001,
+			annotations: [
+				{ type: 'url_citation', url_citation: { title: 'MDN', url: 'https://mdn.dev' } },
+			],
+		}),
+	],
+	'a2'
+);
+
+describe('exportedActivePath', () => {
+	it('follows the branch being shown', () => {
+		expect(exportedActivePath(branched).map((m) => m.id)).toEqual(['q', 'a2']);
+		expect(
+			exportedActivePath({
+				...branched,
+				conversation: { ...branched.conversation, active_leaf_id: 'a1' },
+			}).map((m) => m.id)
+		).toEqual(['q', 'a1']);
+	});
+});
+
+describe('conversationToMarkdown', () => {
+	it('includes reasoning, sources and stats of the shown branch only', () => {
+		const markdown = conversationToMarkdown(branched);
+
+		expect(markdown).toContain('# Sorting <arrays>');
+		expect(markdown).toContain('## Assistant (gpt-5)');
+		expect(markdown).toContain('<summary>Reasoning</summary>\n\nThink about it');
+		expect(markdown).toContain('- [MDN](https://mdn.dev)');
+		expect(markdown).toContain('_42 tokens · $0.001000_');
+		expect(markdown).not.toContain('First answer');
+	});
+});
+
+describe('conversationToHtml', () => {
+	it('uses the rendered content and escapes everything else', () => {
+		const html = conversationToHtml(branched, new Map([['a2', '<p>Use <code>sort()</code></p>']]));
+
+		expect(html).toContain('<title>Sorting &lt;arrays&gt;</title>');
+		expect(html).toContain('<p>Use <code>sort()</code></p>');
+		expect(html).toContain('<p>How do I sort?</p>');
+		expect(html).toContain('<a href="https://mdn.dev">MDN</a>');
+	});
+
+	it('only links to web urls', () => {
+		const html = conversationToHtml(
+			conversation([
+				message('a', 'assistant', 'Sources', {
+					annotations: [
+						{ type: 'url_citation', url_citation: { title: 'Bad', url: 'javascript:alert(1)' } },
+						{ type: 'url_citation', url_citation: { title: 'Good', url: 'http://example.com' } },
+					],
+				}),
+			]),
+			new Map()
+		);
+
+		expect(html).toContain('<li>Bad</li>');
+		expect(html).toContain('<a href="http://example.com">Good</a>');
+		expect(html).not.toContain('javascript:');
+	});
+});
+
+describe('exportFileName', () => {
+	it('slugifies the title', () => {
+		expect(exportFileName(branched, 'markdown')).toBe('sorting-arrays.md');
+		expect(exportFileName(conversation([], undefined, '???'), 'json')).toBe('conversation.json');
+	});
+});
+
+describe('ConversationExportSchema', () => {
+	it('accepts its own output after a JSON round trip', () => {
+		const parsed = ConversationExportSchema.safeParse(JSON.parse(JSON.stringify(branched)));
+
+		expect(parsed.success).toBe(true);
+	});
+});
@@ -0,0 +1,326 @@
+import type { Doc } from '$lib/backend/convex/_generated/dataModel';
+import { Provider } from '$lib/types';
+import { z } from 'zod/v4';
+import { MessageTree } from './message-tree';
+
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export const ExportedMessageSchema = z.object({
+	id: z.string(),
+	/** Unset for the first message, and on messages saved before conversations could branch */
+	parent_id: z.string().optional(),
+	version: z.number().optional(),
+	created_at: z.number(),
+	role: z.enum(['user', 'assistant', 'system']),
+	content: z.string(),
+	reasoning: z.string().optional(),
+	error: z.string().optional(),
+	model_id: z.string().optional(),
+	provider: z.enum(Provider).optional(),
+	reasoning_effort: z.enum(['low', 'medium', 'high']).optional(),
+	web_search_enabled: z.boolean().optional(),
+	token_count: z.number().optional(),
+	input_tokens: z.number().optional(),
+	output_tokens: z.number().optional(),
+	reasoning_tokens: z.number().optional(),
+	cost_usd: z.number().optional(),
+	latency_ms: z.number().optional(),
+	attachments: z
+		.array(
+			z.object({
+				type: z.enum(['image', 'video', 'audio', 'document']),
+				url: z.string(),
+				fileName: z.string(),
+				mimeType: z.string(),
+				size: z.number(),
+			})
+		)
+		.optional(),
+	annotations: z.array(z.record(z.string(), z.any())).optional(),
+	tool_calls: z
+		.array(
+			z.object({
+				id: z.string(),
+				name: z.string(),
+				arguments: z.string(),
+				result: z.string().optional(),
+				error: z.string().optional(),
+			})
+		)
+		.optional(),
+});
+
+export type ExportedMessage = z.infer<typeof ExportedMessageSchema>;
+
+/**
+ * Lossless export of a conversation, every version of every message included
+ */
+export const ConversationExportSchema = z.object({
+	version: z.literal(CONVERSATION_EXPORT_VERSION),
+	exported_at: z.number(),
+	conversation: z.object({
+		id: z.string(),
+		title: z.string(),
+		created_at: z.number(),
+		updated_at: z.number().optional(),
+		/** Last message of the branch being shown */
+		active_leaf_id: z.string().optional(),
+		cost_usd: z.number().optional(),
+		token_count: z.number().optional(),
+	}),
+	messages: z.array(ExportedMessageSchema),
+});
+
+export type ConversationExport = z.infer<typeof ConversationExportSchema>;
+
+export const exportFormats = ['markdown', 'json', 'html'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+	markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+	json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+	html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+};
+
+export function toConversationExport(
+	conversation: Doc<'conversations'>,
+	messages: Doc<'messages'>[],
+	exportedAt = Date.now()
+): ConversationExport {
+	return {
+		version: CONVERSATION_EXPORT_VERSION,
+		exported_at: exportedAt,
+		conversation: {
+			id: conversation._id,
+			title: conversation.title,
+			created_at: conversation._creationTime,
+			updated_at: conversation.updated_at,
+			active_leaf_id: conversation.active_leaf_id,
+			cost_usd: conversation.cost_usd,
+			token_count: conversation.token_count,
+		},
+		messages: [...messages]
+			.sort((a, b) => a._creationTime - b._creationTime)
+			.map((message) => ({
+				id: message._id,
+				parent_id: message.parent_id,
+				version: message.version,
+				created_at: message._creationTime,
+				role: message.role,
+				content: message.content,
+				reasoning: message.reasoning,
+				error: message.error,
+				model_id: message.model_id,
+				provider: message.provider,
+				reasoning_effort: message.reasoning_effort,
+				web_search_enabled: message.web_search_enabled,
+				token_count: message.token_count,
+				input_tokens: message.input_tokens,
+				output_tokens: message.output_tokens,
+				reasoning_tokens: message.reasoning_tokens,
+				cost_usd: message.cost_usd,
+				latency_ms: message.latency_ms,
+				// Storage ids are meaningless outside of this deployment, the urls are kept
+				attachments: message.attachments?.map((attachment) => ({
+					type: attachment.type,
+					url: attachment.url,
+					fileName: attachment.fileName,
+					mimeType: attachment.mimeType,
+					size: attachment.size,
+				})),
+				annotations: message.annotations,
+				tool_calls: message.tool_calls,
+			})),
+	};
+}
+
+/**
+ * The messages of the branch being shown, the other versions only make it into JSON
+ */
+export function exportedActivePath(exported: ConversationExport): ExportedMessage[] {
+	const tree = new MessageTree(
+		exported.messages.map((message) => ({
+			...message,
+			_id: message.id,
+			_creationTime: message.created_at,
+		}))
+	);
+
+	return tree.activePath(exported.conversation.active_leaf_id);
+}
+
+export function exportFileName(exported: ConversationExport, format: ExportFormat): string {
+	const slug = exported.conversation.title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-|-$/g, '');
+
+	return `${slug || 'conversation'}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+function roleLabel(message: ExportedMessage): string {
+	if (message.role === 'user') return 'User';
+	if (message.role === 'system') return 'System';
+	return message.model_id ? `Assistant (${message.model_id})` : 'Assistant';
+}
+
+function messageStats(message: ExportedMessage): string[] {
+	const stats: string[] = [];
+	if (message.token_count !== undefined) stats.push(`${message.token_count} tokens`);
+	if (message.cost_usd !== undefined) stats.push(`$${message.cost_usd.toFixed(6)}`);
+	if (message.latency_ms !== undefined) stats.push(`${(message.latency_ms / 1000).toFixed(1)}s`);
+	return stats;
+}
+
+type UrlCitation = { title: string; url: string };
+
+function citations(message: ExportedMessage): UrlCitation[] {
+	return (message.annotations ?? []).flatMap((annotation) => {
+		const citation = annotation.url_citation as Partial<UrlCitation> | undefined;
+		if (annotation.type !== 'url_citation' || !citation?.url) return [];
+		return [{ title: citation.title || citation.url, url: citation.url }];
+	});
+}
+
+export function conversationToMarkdown(exported: ConversationExport): string {
+	const sections = [`# ${exported.conversation.title}`];
+
+	for (const message of exportedActivePath(exported)) {
+		const parts = [`## ${roleLabel(message)}`];
+
+		if (message.reasoning) {
+			parts.push(`<details>\n<summary>Reasoning</summary>\n\n${message.reasoning}\n\n</details>`);
+		}
+
+		for (const call of message.tool_calls ?? []) {
+			const outcome = call.error ? `Error: ${call.error}` : (call.result ?? '');
+			parts.push(
+				`**Tool call** \`${call.name}\`\n\n\`\`\`json\n${call.arguments}\n\`\`\`\n\n${outcome}`
+			);
+		}
+
+		parts.push(message.error ? `> **Error:** ${message.error}` : message.content);
+
+		if (message.attachments?.length) {
+			parts.push(message.attachments.map((a) => `- [${a.fileName}](${a.url})`).join('\n'));
+		}
+
+		const sources = citations(message);
+		if (sources.length > 0) {
+			parts.push(`Sources:\n${sources.map((s) => `- [${s.title}](${s.url})`).join('\n')}`);
+		}
+
+		const stats = messageStats(message);
+		if (stats.length > 0) parts.push(`_${stats.join(' · ')}_`);
+
+		sections.push(parts.join('\n\n'));
+	}
+
+	return `${sections.join('\n\n')}\n`;
+}
+
+export function escapeHtml(text: string): string {
+	return text
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;')
+		.replaceAll("'", '&#39;');
+}
+
+/** Only web links are kept clickable, anything else (`javascript:`, `data:`...) is shown as text */
+function isWebUrl(url: string): boolean {
+	try {
+		const { protocol } = new URL(url);
+		return protocol === 'http:' || protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; background: #fff; }
+.message { margin: 1.5rem 0; }
+.message.user { background: #f6f8fa; border-radius: 0.75rem; padding: 0.5rem 1rem; }
+.role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #59636e; }
+.meta { font-size: 0.75rem; color: #59636e; }
+.error { color: #d1242f; }
+pre { padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+pre .copy { display: none; }
+details { color: #59636e; font-size: 0.875rem; }
+@media (prefers-color-scheme: dark) {
+	body { color: #e6edf3; background: #0d1117; }
+	.message.user { background: #161b22; }
+	.role, .meta, details { color: #9198a1; }
+	.shiki, .shiki span { color: var(--shiki-dark) !important; background-color: var(--shiki-dark-bg) !important; }
+}
+`;
+
+/**
+ * Standalone HTML page of the branch being shown.
+ *
+ * `renderedContent` maps message ids to their sanitized HTML, as rendered by `md.renderAsync`
+ * so code blocks keep their highlighting.
+ */
+export function conversationToHtml(
+	exported: ConversationExport,
+	renderedContent: Map<string, string>
+): string {
+	const messages = exportedActivePath(exported).map((message) => {
+		const parts = [`<div class="role">${escapeHtml(roleLabel(message))}</div>`];
+
+		if (message.reasoning) {
+			parts.push(
+				`<details><summary>Reasoning</summary><p>${escapeHtml(message.reasoning)}</p></details>`
+			);
+		}
+
+		for (const call of message.tool_calls ?? []) {
+			const outcome = call.error ? `Error: ${call.error}` : (call.result ?? '');
+			parts.push(
+				`<details><summary>Tool call <code>${escapeHtml(call.name)}</code></summary><pre>${escapeHtml(call.arguments)}</pre><p>${escapeHtml(outcome)}</p></details>`
+			);
+		}
+
+		parts.push(
+			message.error
+				? `<p class="error">${escapeHtml(message.error)}</p>`
+				: (renderedContent.get(message.id) ?? `<p>${escapeHtml(message.content)}</p>`)
+		);
+
+		const links = [
+			...(message.attachments ?? []).map((a) => ({ title: a.fileName, url: a.url })),
+			...citations(message),
+		];
+		if (links.length > 0) {
+			const items = links.map((link) =>
+				isWebUrl(link.url)
+					? `<li><a href="${escapeHtml(link.url)}">${escapeHtml(link.title)}</a></li>`
+					: `<li>${escapeHtml(link.title)}</li>`
+			);
+			parts.push(`<ul>${items.join('')}</ul>`);
+		}
+
+		const stats = messageStats(message);
+		if (stats.length > 0) parts.push(`<div class="meta">${escapeHtml(stats.join(' · '))}</div>`);
+
+		return `<section class="message ${message.role}">${parts.join('\n')}</section>`;
+	});
+
+	const title = escapeHtml(exported.conversation.title);
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+${messages.join('\n')}
+</body>
+</html>
+`;
+}
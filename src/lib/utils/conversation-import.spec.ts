@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { parseImport, type ImportedConversation } from './conversation-import';
+
+const keys = (conversation: ImportedConversation | undefined) =>
+	conversation?.messages.map((m) => [m.key, m.parent_key]);
+
+function chatGptNode(
+	id: string,
+	parent: string | null,
+	role: string,
+	text: string,
+	createTime: number
+) {
+	return {
+		id,
+		parent,
+		message: {
+			author: { role },
+			create_time: createTime,
+			content: { content_type: 'text', parts: [text] },
+			metadata: role === 'assistant' ? { model_slug: 'gpt-4o' } : {},
+		},
+	};
+}
+
+describe('parseImport', () => {
+	it('keeps ChatGPT edits as branches and skips system messages', () => {
+		const result = parseImport([
+			{
+				title: 'Edited',
+				update_time: 1700000000,
+				current_node: 'a2',
+				mapping: {
+					root: { id: 'root', parent: null, message: null },
+					sys: chatGptNode('sys', 'root', 'system', 'You are ChatGPT', 1),
+					u1: chatGptNode('u1', 'sys', 'user', 'Hi', 2),
+					a1: chatGptNode('a1', 'u1', 'assistant', 'Hello', 3),
+					u2: chatGptNode('u2', 'sys', 'user', 'Hi there', 4),
+					a2: chatGptNode('a2', 'u2', 'assistant', 'Hey', 5),
+				},
+			},
+		])._unsafeUnwrap();
+
+		expect(result.format).toBe('chatgpt');
+		const conversation = result.conversations[0];
+		expect(keys(conversation)).toEqual([
+			['u1', undefined],
+			['a1', 'u1'],
+			['u2', undefined],
+			['a2', 'u2'],
+		]);
+		expect(conversation?.active_leaf_key).toBe('a2');
+		expect(conversation?.updated_at).toBe(1700000000 * 1000);
+		expect(conversation?.messages[1]?.model_id).toBe('gpt-4o');
+	});
+
+	it('chains plain Claude exports and reads thinking as reasoning', () => {
+		const result = parseImport([
+			{
+				name: 'Claude chat',
+				chat_messages: [
+					{ uuid: 'm1', sender: 'human', text: 'Question', created_at: '2024-01-01T00:00:00Z' },
+					{
+						uuid: 'm2',
+						sender: 'assistant',
+						content: [
+							{ type: 'thinking', thinking: 'Hmm' },
+							{ type: 'text', text: 'Answer' },
+						],
+						created_at: '2024-01-01T00:00:01Z',
+					},
+				],
+			},
+		])._unsafeUnwrap();
+
+		expect(result.format).toBe('claude');
+		expect(keys(result.conversations[0])).toEqual([
+			['m1', undefined],
+			['m2', 'm1'],
+		]);
+		expect(result.conversations[0]?.messages[1]).toMatchObject({
+			content: 'Answer',
+			reasoning: 'Hmm',
+		});
+	});
+
+	it('follows Claude parent links when the conversation branched', () => {
+		const message = (uuid: string, parent: string, sender: string, at: number) => ({
+			uuid,
+			sender,
+			text: uuid,
+			parent_message_uuid: parent,
+			created_at: new Date(at).toISOString(),
+		});
+
+		const result = parseImport([
+			{
+				name: 'Branched',
+				chat_messages: [
+					message('m1', '00000000-0000-4000-8000-000000000000', 'human', 1),
+					message('m2', 'm1', 'assistant', 2),
+					message('m3', 'm1', 'assistant', 3),
+				],
+			},
+		])._unsafeUnwrap();
+
+		expect(keys(result.conversations[0])).toEqual([
+			['m1', undefined],
+			['m2', 'm1'],
+			['m3', 'm1'],
+		]);
+	});
+
+	it('reports conversations that cannot be imported without dropping the others', () => {
+		const result = parseImport([
+			{ name: 'Empty', chat_messages: [] },
+			{ name: 'Broken', chat_messages: 'nope' },
+			{ name: 'Fine', chat_messages: [{ uuid: 'm1', sender: 'human', text: 'Hi' }] },
+		])._unsafeUnwrap();
+
+		expect(result.conversations.map((c) => c.title)).toEqual(['Fine']);
+		expect(result.errors.map((e) => e.title)).toEqual(['Empty', 'Broken']);
+	});
+
+	it('reads our own export including messages saved before branching', () => {
+		const result = parseImport({
+			version: 1,
+			exported_at: 0,
+			conversation: { id: 'c', title: 'Mine', created_at: 0, active_leaf_id: 'b' },
+			messages: [
+				{ id: 'a', role: 'user', content: 'One', created_at: 1 },
+				{ id: 'b', role: 'assistant', content: 'Two', created_at: 2, cost_usd: 1 },
+			],
+		})._unsafeUnwrap();
+
+		expect(result.format).toBe('thom');
+		expect(keys(result.conversations[0])).toEqual([
+			['a', undefined],
+			['b', 'a'],
+		]);
+		expect(result.conversations[0]?.messages[1]).not.toHaveProperty('cost_usd');
+	});
+
+	it('rejects files it does not know', () => {
+		expect(parseImport({ hello: 'world' }).isErr()).toBe(true);
+		expect(parseImport([{ hello: 'world' }]).isErr()).toBe(true);
+		expect(parseImport([]).isErr()).toBe(true);
+	});
+});
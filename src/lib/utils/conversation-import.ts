@@ -0,0 +1,354 @@
+import { err, ok, type Result } from 'neverthrow';
+import { z } from 'zod/v4';
+import { ConversationExportSchema, type ConversationExport } from './conversation-export';
+import { MessageTree } from './message-tree';
+
+export type ImportFormat = 'chatgpt' | 'claude' | 'thom';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+	chatgpt: 'ChatGPT',
+	claude: 'Claude',
+	thom: 'thom.chat',
+};
+
+export type ImportedMessage = {
+	/** Id in the source, only used to link messages to their parent */
+	key: string;
+	parent_key?: string;
+	role: 'user' | 'assistant' | 'system';
+	content: string;
+	reasoning?: string;
+	model_id?: string;
+};
+
+export type ImportedConversation = {
+	title: string;
+	updated_at?: number;
+	/** Parents come before their children, siblings oldest first */
+	messages: ImportedMessage[];
+	/** Last message of the branch the source was showing, the newest branch when unset */
+	active_leaf_key?: string;
+};
+
+export type ImportError = {
+	title: string;
+	error: string;
+};
+
+export type ParsedImport = {
+	format: ImportFormat;
+	conversations: ImportedConversation[];
+	/** Conversations of the file that can't be imported */
+	errors: ImportError[];
+};
+
+const ChatGptConversationSchema = z.object({
+	title: z.string().nullish(),
+	update_time: z.number().nullish(),
+	current_node: z.string().nullish(),
+	mapping: z.record(
+		z.string(),
+		z.object({
+			parent: z.string().nullish(),
+			message: z
+				.object({
+					author: z.object({ role: z.string() }),
+					create_time: z.number().nullish(),
+					content: z
+						.object({
+							content_type: z.string(),
+							parts: z.array(z.unknown()).optional(),
+						})
+						.optional(),
+					metadata: z.record(z.string(), z.unknown()).optional(),
+				})
+				.nullish(),
+		})
+	),
+});
+
+const ClaudeConversationSchema = z.object({
+	name: z.string().nullish(),
+	updated_at: z.string().optional(),
+	chat_messages: z.array(
+		z.object({
+			uuid: z.string(),
+			sender: z.string(),
+			text: z.string().optional(),
+			content: z
+				.array(
+					z.object({
+						type: z.string(),
+						text: z.string().optional(),
+						thinking: z.string().optional(),
+					})
+				)
+				.optional(),
+			created_at: z.string().optional(),
+			parent_message_uuid: z.string().optional(),
+		})
+	),
+});
+
+const UNTITLED = 'Imported conversation';
+
+function titleOf(value: unknown, key: string): string {
+	if (typeof value !== 'object' || value === null) return UNTITLED;
+	const title = (value as Record<string, unknown>)[key];
+	return typeof title === 'string' && title.trim() ? title : UNTITLED;
+}
+
+/**
+ * Order messages so every parent is inserted before its children. Messages whose parent
+ * isn't part of the import become roots.
+ */
+function orderMessages(messages: (ImportedMessage & { created_at: number })[]): ImportedMessage[] {
+	const keys = new Set(messages.map((m) => m.key));
+	const children = new Map<string | undefined, typeof messages>();
+
+	for (const message of [...messages].sort((a, b) => a.created_at - b.created_at)) {
+		const parentKey =
+			message.parent_key && keys.has(message.parent_key) ? message.parent_key : undefined;
+		const siblings = children.get(parentKey) ?? [];
+		siblings.push({ ...message, parent_key: parentKey });
+		children.set(parentKey, siblings);
+	}
+
+	const ordered: ImportedMessage[] = [];
+	const visit = (parentKey: string | undefined) => {
+		for (const { created_at: _, ...message } of children.get(parentKey) ?? []) {
+			ordered.push(message);
+			visit(message.key);
+		}
+	};
+	visit(undefined);
+
+	return ordered;
+}
+
+function textParts(parts: unknown[] | undefined): string {
+	return (parts ?? []).filter((part): part is string => typeof part === 'string').join('\n');
+}
+
+/**
+ * ChatGPT stores every edit and regeneration in `mapping`, system prompts, tool output and
+ * hidden messages are skipped and their children attached to the closest kept ancestor.
+ */
+function fromChatGpt(
+	conversation: z.infer<typeof ChatGptConversationSchema>
+): Result<ImportedConversation, string> {
+	const nodes = conversation.mapping;
+
+	const kept = new Map<string, ImportedMessage & { created_at: number }>();
+	for (const [key, node] of Object.entries(nodes)) {
+		const message = node.message;
+		const role = message?.author.role;
+		if (!message || (role !== 'user' && role !== 'assistant')) continue;
+		if (message.metadata?.is_visually_hidden_from_conversation) continue;
+
+		const contentType = message.content?.content_type;
+		if (contentType !== 'text' && contentType !== 'multimodal_text') continue;
+
+		const content = textParts(message.content?.parts);
+		if (!content.trim()) continue;
+
+		const modelSlug = message.metadata?.model_slug;
+		kept.set(key, {
+			key,
+			role,
+			content,
+			model_id: role === 'assistant' && typeof modelSlug === 'string' ? modelSlug : undefined,
+			created_at: (message.create_time ?? 0) * 1000,
+		});
+	}
+
+	const closestKept = (key: string | null | undefined): string | undefined => {
+		const seen = new Set<string>();
+		while (key && !kept.has(key) && !seen.has(key)) {
+			seen.add(key);
+			key = nodes[key]?.parent;
+		}
+		return key && kept.has(key) ? key : undefined;
+	};
+
+	const messages = Array.from(kept.values()).map((message) => ({
+		...message,
+		parent_key: closestKept(nodes[message.key]?.parent),
+	}));
+
+	if (messages.length === 0) return err('No messages to import');
+
+	return ok({
+		title: conversation.title?.trim() || UNTITLED,
+		updated_at: conversation.update_time ? conversation.update_time * 1000 : undefined,
+		messages: orderMessages(messages),
+		active_leaf_key: closestKept(conversation.current_node),
+	});
+}
+
+/**
+ * Claude exports link messages with `parent_message_uuid` when the conversation has
+ * branches, older exports are a plain list.
+ */
+function fromClaude(
+	conversation: z.infer<typeof ClaudeConversationSchema>
+): Result<ImportedConversation, string> {
+	const linked = conversation.chat_messages.some((m) => m.parent_message_uuid);
+
+	const messages: (ImportedMessage & { created_at: number })[] = [];
+	for (const [i, message] of conversation.chat_messages.entries()) {
+		if (message.sender !== 'human' && message.sender !== 'assistant') continue;
+
+		const parts = message.content ?? [];
+		const content =
+			parts.length > 0
+				? parts
+						.filter((part) => part.type === 'text')
+						.map((part) => part.text ?? '')
+						.join('\n\n')
+				: (message.text ?? '');
+		const reasoning = parts
+			.filter((part) => part.type === 'thinking')
+			.map((part) => part.thinking ?? '')
+			.join('\n\n');
+
+		if (!content.trim()) continue;
+
+		messages.push({
+			key: message.uuid,
+			parent_key: linked ? message.parent_message_uuid : messages.at(-1)?.key,
+			role: message.sender === 'human' ? 'user' : 'assistant',
+			content,
+			reasoning: reasoning || undefined,
+			created_at: message.created_at ? Date.parse(message.created_at) : i,
+		});
+	}
+
+	if (messages.length === 0) return err('No messages to import');
+
+	// Skipped messages hand their children over to their own parent
+	if (linked) {
+		const parents = new Map(conversation.chat_messages.map((m) => [m.uuid, m.parent_message_uuid]));
+		const kept = new Set(messages.map((m) => m.key));
+
+		for (const message of messages) {
+			const seen = new Set<string>();
+			let parentKey = message.parent_key;
+			while (parentKey && !kept.has(parentKey) && !seen.has(parentKey)) {
+				seen.add(parentKey);
+				parentKey = parents.get(parentKey);
+			}
+			message.parent_key = parentKey;
+		}
+	}
+
+	const updatedAt = conversation.updated_at ? Date.parse(conversation.updated_at) : NaN;
+
+	return ok({
+		title: conversation.name?.trim() || UNTITLED,
+		updated_at: Number.isNaN(updatedAt) ? undefined : updatedAt,
+		messages: orderMessages(messages),
+	});
+}
+
+/**
+ * Our own JSON export. Costs aren't imported, they would count towards this month's spend,
+ * and neither are attachments, their files belong to the account that exported them.
+ */
+function fromExport(exported: ConversationExport): Result<ImportedConversation, string> {
+	const tree = new MessageTree(
+		exported.messages.map((message) => ({
+			...message,
+			_id: message.id,
+			_creationTime: message.created_at,
+		}))
+	);
+
+	const messages = exported.messages.map((message) => ({
+		key: message.id,
+		parent_key: tree.parentOf(message.id)?.id,
+		role: message.role,
+		content: message.content,
+		reasoning: message.reasoning,
+		model_id: message.model_id,
+		created_at: message.created_at,
+	}));
+
+	if (messages.length === 0) return err('No messages to import');
+
+	return ok({
+		title: exported.conversation.title,
+		updated_at: exported.conversation.updated_at,
+		messages: orderMessages(messages),
+		active_leaf_key: exported.conversation.active_leaf_id,
+	});
+}
+
+function parseEach<T>(
+	items: unknown[],
+	schema: z.ZodType<T>,
+	titleKey: string,
+	convert: (item: T) => Result<ImportedConversation, string>
+): Pick<ParsedImport, 'conversations' | 'errors'> {
+	const conversations: ImportedConversation[] = [];
+	const errors: ImportError[] = [];
+
+	for (const item of items) {
+		const parsed = schema.safeParse(item);
+		const result = parsed.success
+			? convert(parsed.data)
+			: err(`Invalid conversation: ${parsed.error.issues[0]?.message ?? 'unknown error'}`);
+
+		if (result.isOk()) {
+			conversations.push(result.value);
+		} else {
+			errors.push({ title: titleOf(item, titleKey), error: result.error });
+		}
+	}
+
+	return { conversations, errors };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read the conversations of a ChatGPT `conversations.json`, a Claude export or one of our
+ * own JSON exports
+ */
+export function parseImport(data: unknown): Result<ParsedImport, string> {
+	if (isRecord(data) && 'messages' in data && 'conversation' in data) {
+		const parsed = ConversationExportSchema.safeParse(data);
+		if (!parsed.success) return err('Unsupported thom.chat export version or invalid file');
+
+		const result = fromExport(parsed.data);
+		return ok({
+			format: 'thom',
+			conversations: result.isOk() ? [result.value] : [],
+			errors: result.isErr()
+				? [{ title: parsed.data.conversation.title, error: result.error }]
+				: [],
+		});
+	}
+
+	if (!Array.isArray(data)) return err('Unrecognized export format');
+
+	const sample = data.find(isRecord);
+	if (!sample) return err('The export has no conversations');
+
+	if ('mapping' in sample) {
+		return ok({
+			format: 'chatgpt',
+			...parseEach(data, ChatGptConversationSchema, 'title', fromChatGpt),
+		});
+	}
+
+	if ('chat_messages' in sample) {
+		return ok({
+			format: 'claude',
+			...parseEach(data, ClaudeConversationSchema, 'name', fromClaude),
+		});
+	}
+
+	return err('Unrecognized export format');
+}
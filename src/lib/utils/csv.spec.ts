@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+	it('writes a header row followed by the selected columns', () => {
+		const csv = toCsv(
+			[
+				{ a: 1, b: 'x', c: true },
+				{ a: 2, b: 'y', c: false },
+			],
+			['b', 'a']
+		);
+
+		expect(csv).toBe('b,a\r\nx,1\r\ny,2');
+	});
+
+	it('leaves missing values empty', () => {
+		expect(toCsv([{ a: undefined, b: null }], ['a', 'b'])).toBe('a,b\r\n,');
+	});
+
+	it('quotes values containing separators, quotes or newlines', () => {
+		expect(toCsv([{ a: 'hello, world', b: 'say "hi"', c: 'line\nbreak' }], ['a', 'b', 'c'])).toBe(
+			'a,b,c\r\n"hello, world","say ""hi""","line\nbreak"'
+		);
+	});
+});
@@ -0,0 +1,31 @@
+import { downloadBlob } from './file';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCsvValue(value: CsvValue): string {
+	if (value === null || value === undefined) return '';
+
+	const str = String(value);
+	if (!/[",\r\n]/.test(str)) return str;
+
+	return `"${str.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Serialize rows to RFC 4180 CSV, with `columns` as the header row
+ */
+export function toCsv<T extends Record<string, CsvValue>>(
+	rows: T[],
+	columns: (keyof T & string)[]
+): string {
+	const lines = [
+		columns.map(escapeCsvValue).join(','),
+		...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+	];
+
+	return lines.join('\r\n');
+}
+
+export function downloadCsv(filename: string, csv: string): void {
+	downloadBlob(filename, new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+}
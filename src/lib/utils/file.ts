@@ -28,6 +28,20 @@ export function openInNewTab(url: string): void {
 	window.open(url, '_blank');
 }
 
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+	const url = URL.createObjectURL(blob);
+
+	const a = document.createElement('a');
+	a.href = url;
+	a.download = filename;
+	a.click();
+
+	URL.revokeObjectURL(url);
+}
+
 /**
  * Get file extension from filename
  */
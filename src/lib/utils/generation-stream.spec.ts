@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	applyGenerationEvent,
+	GenerationStream,
+	type GenerationSnapshot,
+	type GenerationStreamEvent,
+} from './generation-stream';
+
+describe('GenerationStream', () => {
+	it('sends a snapshot of what was streamed so far to new subscribers', () => {
+		const stream = new GenerationStream();
+		stream.start('m1');
+		stream.append({ content: 'Hello', reasoning: 'Thinking' });
+
+		const listener = vi.fn();
+		stream.subscribe(listener);
+
+		expect(listener).toHaveBeenCalledWith({
+			type: 'snapshot',
+			message_id: 'm1',
+			content: 'Hello',
+			reasoning: 'Thinking',
+			tool_calls: [],
+		});
+	});
+
+	it('forwards deltas and skips empty ones', () => {
+		const stream = new GenerationStream();
+		const events: GenerationStreamEvent[] = [];
+		stream.subscribe((e) => events.push(e));
+
+		stream.append({ content: 'a' });
+		stream.append({});
+		stream.append({ reasoning: 'b' });
+
+		expect(events.slice(1)).toEqual([
+			{ type: 'delta', content: 'a', reasoning: '' },
+			{ type: 'delta', content: '', reasoning: 'b' },
+		]);
+	});
+
+	it('stops sending events after unsubscribing', () => {
+		const stream = new GenerationStream();
+		const listener = vi.fn();
+		const unsubscribe = stream.subscribe(listener);
+
+		unsubscribe();
+		stream.append({ content: 'a' });
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(stream.subscriberCount).toBe(0);
+	});
+
+	it('ends with done or error and ignores later subscribers', () => {
+		const stream = new GenerationStream();
+		const listener = vi.fn();
+		stream.subscribe(listener);
+
+		stream.close('Boom');
+		stream.close();
+
+		expect(listener).toHaveBeenLastCalledWith({ type: 'error', error: 'Boom' });
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		const late = vi.fn();
+		stream.subscribe(late);
+		expect(late).not.toHaveBeenCalled();
+	});
+
+	it('drops subscribers that throw without affecting the others', () => {
+		const stream = new GenerationStream();
+		const healthy = vi.fn();
+		let calls = 0;
+		stream.subscribe(() => {
+			if (calls++ > 0) throw new Error('closed');
+		});
+		stream.subscribe(healthy);
+
+		stream.append({ content: 'a' });
+		stream.append({ content: 'b' });
+
+		expect(stream.subscriberCount).toBe(1);
+		expect(healthy).toHaveBeenCalledTimes(3);
+	});
+});
+
+describe('applyGenerationEvent', () => {
+	it('rebuilds the streamed message from events', () => {
+		const events: GenerationStreamEvent[] = [
+			{ type: 'snapshot', message_id: 'm1', content: 'He', reasoning: '', tool_calls: [] },
+			{ type: 'delta', content: 'llo', reasoning: 'hmm' },
+			{ type: 'tool_calls', tool_calls: [{ id: 'c1', name: 'calculate', arguments: '{}' }] },
+			{ type: 'done' },
+		];
+
+		const initial: GenerationSnapshot = {
+			message_id: null,
+			content: '',
+			reasoning: '',
+			tool_calls: [],
+		};
+
+		expect(events.reduce(applyGenerationEvent, initial)).toEqual({
+			message_id: 'm1',
+			content: 'Hello',
+			reasoning: 'hmm',
+			tool_calls: [{ id: 'c1', name: 'calculate', arguments: '{}' }],
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import type { ToolCall } from '$lib/backend/convex/schema';
+
+export type GenerationSnapshot = {
+	message_id: string | null;
+	content: string;
+	reasoning: string;
+	tool_calls: ToolCall[];
+};
+
+export type GenerationStreamEvent =
+	| ({ type: 'snapshot' } & GenerationSnapshot)
+	| { type: 'delta'; content: string; reasoning: string }
+	| { type: 'tool_calls'; tool_calls: ToolCall[] }
+	| { type: 'done' }
+	| { type: 'error'; error: string };
+
+type Listener = (event: GenerationStreamEvent) => void;
+
+/**
+ * Fans the deltas of a single generation out to any number of subscribers.
+ *
+ * Subscribers that join late first receive a snapshot of everything streamed so far,
+ * so they never have to reconcile with the (less frequent) Convex checkpoints.
+ */
+export class GenerationStream {
+	private listeners = new Set<Listener>();
+	private state: GenerationSnapshot = {
+		message_id: null,
+		content: '',
+		reasoning: '',
+		tool_calls: [],
+	};
+	private _closed = false;
+
+	get closed() {
+		return this._closed;
+	}
+
+	get subscriberCount() {
+		return this.listeners.size;
+	}
+
+	snapshot(): GenerationSnapshot {
+		return { ...this.state, tool_calls: [...this.state.tool_calls] };
+	}
+
+	/** Returns a function that removes the listener */
+	subscribe(listener: Listener): () => void {
+		if (this._closed) return () => {};
+
+		listener({ type: 'snapshot', ...this.snapshot() });
+		this.listeners.add(listener);
+
+		return () => this.listeners.delete(listener);
+	}
+
+	start(messageId: string) {
+		this.state.message_id = messageId;
+		this.emit({ type: 'snapshot', ...this.snapshot() });
+	}
+
+	append(delta: { content?: string; reasoning?: string }) {
+		const content = delta.content ?? '';
+		const reasoning = delta.reasoning ?? '';
+		if (!content && !reasoning) return;
+
+		this.state.content += content;
+		this.state.reasoning += reasoning;
+		this.emit({ type: 'delta', content, reasoning });
+	}
+
+	setToolCalls(toolCalls: ToolCall[]) {
+		this.state.tool_calls = toolCalls.map((call) => ({ ...call }));
+		this.emit({ type: 'tool_calls', tool_calls: this.snapshot().tool_calls });
+	}
+
+	/** Ends the stream for every subscriber, passing an error if the generation failed */
+	close(error?: string) {
+		if (this._closed) return;
+
+		this.emit(error === undefined ? { type: 'done' } : { type: 'error', error });
+		this._closed = true;
+		this.listeners.clear();
+	}
+
+	private emit(event: GenerationStreamEvent) {
+		if (this._closed) return;
+
+		for (const listener of this.listeners) {
+			try {
+				listener(event);
+			} catch {
+				// A broken connection must not stop the generation or the other subscribers
+				this.listeners.delete(listener);
+			}
+		}
+	}
+}
+
+/**
+ * Apply a stream event to the client's copy of the generation
+ */
+export function applyGenerationEvent(
+	snapshot: GenerationSnapshot,
+	event: GenerationStreamEvent
+): GenerationSnapshot {
+	switch (event.type) {
+		case 'snapshot': {
+			const { type: _, ...next } = event;
+			return next;
+		}
+		case 'delta':
+			return {
+				...snapshot,
+				content: snapshot.content + event.content,
+				reasoning: snapshot.reasoning + event.reasoning,
+			};
+		case 'tool_calls':
+			return { ...snapshot, tool_calls: event.tool_calls };
+		default:
+			return snapshot;
+	}
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { evaluate } from './math';
+
+describe('evaluate', () => {
+	it('evaluates basic arithmetic', () => {
+		expect(evaluate('1 + 2')._unsafeUnwrap()).toBe(3);
+		expect(evaluate('10 - 4 - 3')._unsafeUnwrap()).toBe(3);
+		expect(evaluate('6 / 4')._unsafeUnwrap()).toBe(1.5);
+		expect(evaluate('7 % 4')._unsafeUnwrap()).toBe(3);
+	});
+
+	it('respects operator precedence and parentheses', () => {
+		expect(evaluate('2 + 3 * 4')._unsafeUnwrap()).toBe(14);
+		expect(evaluate('(2 + 3) * 4')._unsafeUnwrap()).toBe(20);
+		expect(evaluate('2 * (3 + (4 - 1)) / 3')._unsafeUnwrap()).toBe(4);
+	});
+
+	it('treats exponentiation as right associative', () => {
+		expect(evaluate('2 ^ 3 ^ 2')._unsafeUnwrap()).toBe(512);
+		expect(evaluate('-2 ^ 2')._unsafeUnwrap()).toBe(4);
+	});
+
+	it('supports unary signs, decimals and scientific notation', () => {
+		expect(evaluate('-3 + +5')._unsafeUnwrap()).toBe(2);
+		expect(evaluate('--3')._unsafeUnwrap()).toBe(3);
+		expect(evaluate('.5 + 1.25')._unsafeUnwrap()).toBe(1.75);
+		expect(evaluate('1e3 * 2')._unsafeUnwrap()).toBe(2000);
+	});
+
+	it('rejects division by zero', () => {
+		expect(evaluate('1 / 0')._unsafeUnwrapErr()).toBe('Division by zero');
+		expect(evaluate('1 % (2 - 2)')._unsafeUnwrapErr()).toBe('Division by zero');
+	});
+
+	it('rejects malformed expressions', () => {
+		expect(evaluate('').isErr()).toBe(true);
+		expect(evaluate('1 +').isErr()).toBe(true);
+		expect(evaluate('(1 + 2').isErr()).toBe(true);
+		expect(evaluate('1 + 2)').isErr()).toBe(true);
+		expect(evaluate('2 3').isErr()).toBe(true);
+	});
+
+	it('rejects anything that is not arithmetic', () => {
+		expect(evaluate('process.exit()').isErr()).toBe(true);
+		expect(evaluate('Math.PI')._unsafeUnwrapErr()).toContain('Unexpected character');
+	});
+});
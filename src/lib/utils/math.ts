@@ -0,0 +1,179 @@
+import { err, ok, type Result } from 'neverthrow';
+
+type Token =
+	| { type: 'number'; value: number }
+	| { type: 'operator'; value: '+' | '-' | '*' | '/' | '%' | '^' }
+	| { type: 'paren'; value: '(' | ')' };
+
+function tokenize(expression: string): Result<Token[], string> {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < expression.length) {
+		const char = expression[i]!;
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (/[0-9.]/.test(char)) {
+			const match = expression.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?|^\d+\.?/i);
+			if (!match) return err(`Invalid number at position ${i}`);
+
+			tokens.push({ type: 'number', value: Number(match[0]) });
+			i += match[0].length;
+			continue;
+		}
+
+		if ('+-*/%^'.includes(char)) {
+			tokens.push({ type: 'operator', value: char as '+' | '-' | '*' | '/' | '%' | '^' });
+			i++;
+			continue;
+		}
+
+		if (char === '(' || char === ')') {
+			tokens.push({ type: 'paren', value: char });
+			i++;
+			continue;
+		}
+
+		return err(`Unexpected character "${char}" at position ${i}`);
+	}
+
+	return ok(tokens);
+}
+
+/** Evaluates a basic arithmetic expression without using `eval`.
+ *
+ * Supports `+ - * / % ^`, unary minus and parentheses. `^` is right associative.
+ *
+ * @param expression The expression to evaluate
+ * @returns The numeric result or a description of why the expression is invalid
+ *
+ * ## Usage
+ * ```ts
+ * evaluate('2 * (3 + 4)'); // Ok(14)
+ * evaluate('2 ^ 3 ^ 2'); // Ok(512)
+ * evaluate('1 / 0'); // Err('Division by zero')
+ * ```
+ */
+export function evaluate(expression: string): Result<number, string> {
+	const tokensResult = tokenize(expression);
+	if (tokensResult.isErr()) return err(tokensResult.error);
+
+	const tokens = tokensResult.value;
+	let pos = 0;
+
+	const peek = () => tokens[pos];
+
+	// expression := term (('+' | '-') term)*
+	function parseExpression(): Result<number, string> {
+		let left = parseTerm();
+		if (left.isErr()) return left;
+
+		let token = peek();
+		while (token?.type === 'operator' && (token.value === '+' || token.value === '-')) {
+			pos++;
+			const right = parseTerm();
+			if (right.isErr()) return right;
+
+			left = ok(token.value === '+' ? left.value + right.value : left.value - right.value);
+			token = peek();
+		}
+
+		return left;
+	}
+
+	// term := factor (('*' | '/' | '%') factor)*
+	function parseTerm(): Result<number, string> {
+		let left = parseFactor();
+		if (left.isErr()) return left;
+
+		let token = peek();
+		while (
+			token?.type === 'operator' &&
+			(token.value === '*' || token.value === '/' || token.value === '%')
+		) {
+			pos++;
+			const right = parseFactor();
+			if (right.isErr()) return right;
+
+			if (token.value !== '*' && right.value === 0) return err('Division by zero');
+
+			if (token.value === '*') left = ok(left.value * right.value);
+			else if (token.value === '/') left = ok(left.value / right.value);
+			else left = ok(left.value % right.value);
+
+			token = peek();
+		}
+
+		return left;
+	}
+
+	// factor := unary ('^' factor)?
+	function parseFactor(): Result<number, string> {
+		const base = parseUnary();
+		if (base.isErr()) return base;
+
+		const token = peek();
+		if (token?.type === 'operator' && token.value === '^') {
+			pos++;
+			const exponent = parseFactor();
+			if (exponent.isErr()) return exponent;
+
+			return ok(Math.pow(base.value, exponent.value));
+		}
+
+		return base;
+	}
+
+	// unary := ('-' | '+') unary | primary
+	function parseUnary(): Result<number, string> {
+		const token = peek();
+		if (token?.type === 'operator' && (token.value === '-' || token.value === '+')) {
+			pos++;
+			const operand = parseUnary();
+			if (operand.isErr()) return operand;
+
+			return ok(token.value === '-' ? -operand.value : operand.value);
+		}
+
+		return parsePrimary();
+	}
+
+	// primary := number | '(' expression ')'
+	function parsePrimary(): Result<number, string> {
+		const token = peek();
+
+		if (!token) return err('Unexpected end of expression');
+
+		if (token.type === 'number') {
+			pos++;
+			return ok(token.value);
+		}
+
+		if (token.type === 'paren' && token.value === '(') {
+			pos++;
+			const inner = parseExpression();
+			if (inner.isErr()) return inner;
+
+			const closing = peek();
+			if (closing?.type !== 'paren' || closing.value !== ')') return err('Missing closing ")"');
+			pos++;
+
+			return inner;
+		}
+
+		return err(`Unexpected "${token.value}"`);
+	}
+
+	const result = parseExpression();
+	if (result.isErr()) return result;
+
+	if (pos < tokens.length) return err(`Unexpected "${tokens[pos]!.value}"`);
+
+	if (!Number.isFinite(result.value)) return err('Result is not a finite number');
+
+	return result;
+}
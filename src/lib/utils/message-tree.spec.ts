@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { MessageTree, type TreeMessage } from './message-tree';
+
+let time = 0;
+function message(_id: string, parent_id?: string, version = 0): TreeMessage {
+	return { _id, _creationTime: ++time, parent_id, version };
+}
+
+/** Saved before conversations could branch */
+function legacy(_id: string): TreeMessage {
+	return { _id, _creationTime: ++time };
+}
+
+const ids = (messages: TreeMessage[]) => messages.map((m) => m._id);
+
+describe('MessageTree', () => {
+	it('chains messages saved before the tree in creation order', () => {
+		const tree = new MessageTree([legacy('a'), legacy('b'), legacy('c')]);
+
+		expect(ids(tree.activePath())).toEqual(['a', 'b', 'c']);
+		expect(tree.parentOf('c')?._id).toBe('b');
+	});
+
+	it('lets new messages branch off legacy ones', () => {
+		const tree = new MessageTree([legacy('a'), legacy('b'), message('b2', 'a', 1)]);
+
+		expect(ids(tree.siblingsOf('b'))).toEqual(['b', 'b2']);
+		expect(ids(tree.activePath())).toEqual(['a', 'b2']);
+	});
+
+	it('follows the given leaf', () => {
+		const tree = new MessageTree([
+			message('user'),
+			message('reply', 'user'),
+			message('follow-up', 'reply'),
+			message('reply2', 'user', 1),
+		]);
+
+		expect(ids(tree.activePath('follow-up'))).toEqual(['user', 'reply', 'follow-up']);
+		expect(ids(tree.activePath('reply2'))).toEqual(['user', 'reply2']);
+		expect(ids(tree.activePath('missing'))).toEqual(['user', 'reply2']);
+	});
+
+	it('finds the most recent leaf below a message', () => {
+		const tree = new MessageTree([
+			message('user'),
+			message('reply', 'user'),
+			message('follow-up', 'reply'),
+			message('reply2', 'user', 1),
+		]);
+
+		expect(tree.latestLeaf('reply')?._id).toBe('follow-up');
+		expect(tree.latestLeaf('user')?._id).toBe('reply2');
+		expect(tree.latestLeaf(null)?._id).toBe('reply2');
+		expect(tree.latestLeaf('missing')).toBeUndefined();
+	});
+
+	it('treats edited first messages as sibling roots', () => {
+		const tree = new MessageTree([message('first'), message('reply', 'first'), message('edited')]);
+
+		expect(ids(tree.siblingsOf('edited'))).toEqual(['first', 'edited']);
+		expect(ids(tree.activePath('reply'))).toEqual(['first', 'reply']);
+	});
+
+	it('turns messages whose parent was deleted into roots', () => {
+		const tree = new MessageTree([message('orphan', 'deleted')]);
+
+		expect(tree.parentOf('orphan')).toBeUndefined();
+		expect(ids(tree.childrenOf(null))).toEqual(['orphan']);
+	});
+});
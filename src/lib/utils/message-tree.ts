@@ -0,0 +1,100 @@
+export type TreeMessage = {
+	_id: string;
+	_creationTime: number;
+	parent_id?: string;
+	version?: number;
+};
+
+const ROOT = null;
+
+/**
+ * The messages of a conversation arranged as a tree, each edit or regeneration
+ * being a sibling of the message it replaces.
+ *
+ * Messages saved before the tree existed have no `version`, they're chained in the
+ * order they were created.
+ */
+export class MessageTree<T extends TreeMessage> {
+	private byId = new Map<string, T>();
+	private parents = new Map<string, string | null>();
+	private children = new Map<string | null, T[]>();
+
+	constructor(messages: T[]) {
+		const sorted = [...messages].sort((a, b) => a._creationTime - b._creationTime);
+
+		for (const message of sorted) {
+			this.byId.set(message._id, message);
+		}
+
+		let previous: T | undefined;
+		for (const message of sorted) {
+			let parentId = message.parent_id ?? ROOT;
+			if (message.version === undefined) parentId = previous?._id ?? ROOT;
+			// A parent that no longer exists makes the message a root rather than an orphan
+			if (parentId !== ROOT && !this.byId.has(parentId)) parentId = ROOT;
+
+			this.parents.set(message._id, parentId);
+			const siblings = this.children.get(parentId) ?? [];
+			siblings.push(message);
+			this.children.set(parentId, siblings);
+
+			previous = message;
+		}
+	}
+
+	get(id: string): T | undefined {
+		return this.byId.get(id);
+	}
+
+	parentOf(id: string): T | undefined {
+		const parentId = this.parents.get(id);
+		return parentId ? this.byId.get(parentId) : undefined;
+	}
+
+	/** Children of a message, or the roots when `null`, oldest first */
+	childrenOf(id: string | null): T[] {
+		return this.children.get(id) ?? [];
+	}
+
+	/** The message and its alternative versions, oldest first */
+	siblingsOf(id: string): T[] {
+		if (!this.byId.has(id)) return [];
+		return this.childrenOf(this.parents.get(id) ?? ROOT);
+	}
+
+	/** Follow the most recent child down from a message, or from the newest root when `null` */
+	latestLeaf(id: string | null): T | undefined {
+		let current = id === ROOT ? undefined : this.byId.get(id);
+		if (id !== ROOT && !current) return undefined;
+
+		let children = this.childrenOf(current?._id ?? ROOT);
+		while (children.length > 0) {
+			current = children[children.length - 1];
+			children = this.childrenOf(current!._id);
+		}
+
+		return current;
+	}
+
+	/** Every message from the root down to the given one */
+	pathTo(id: string): T[] {
+		const path: T[] = [];
+
+		let current = this.byId.get(id);
+		while (current) {
+			path.push(current);
+			current = this.parentOf(current._id);
+		}
+
+		return path.reverse();
+	}
+
+	/**
+	 * The branch currently shown, ending at `leafId` or at the most recent message when
+	 * the leaf is unknown
+	 */
+	activePath(leafId?: string): T[] {
+		const leaf = (leafId && this.byId.get(leafId)) || this.latestLeaf(ROOT);
+		return leaf ? this.pathTo(leaf._id) : [];
+	}
+}
@@ -13,9 +13,9 @@ export type ProviderApiKeyData = {
 
 export const ProviderUtils = {
 	/**
-	 * Validate an API key for a specific provider via server endpoint
+	 * Validate the user's saved API key for a specific provider via server endpoint
 	 */
-	validateApiKey: async (provider: Provider, key: string): Promise<Result<ProviderApiKeyData, string>> => {
+	validateApiKey: async (provider: Provider): Promise<Result<ProviderApiKeyData, string>> => {
 		return await ResultAsync.fromPromise(
 			(async () => {
 				const response = await fetch('/api/validate-key', {
@@ -23,7 +23,7 @@ export const ProviderUtils = {
 					headers: {
 						'Content-Type': 'application/json',
 					},
-					body: JSON.stringify({ provider, key }),
+					body: JSON.stringify({ provider }),
 				});
 
 				if (!response.ok) {
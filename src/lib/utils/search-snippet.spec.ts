@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { matchesSearchMode, searchSnippet, searchTerms } from './search-snippet';
+
+const render = (parts: ReturnType<typeof searchSnippet>) =>
+	parts.map((part) => (part.match ? `[${part.text}]` : part.text)).join('');
+
+describe('searchTerms', () => {
+	it('splits on anything that is not a letter or digit', () => {
+		expect(searchTerms('Svelte-kit  routing, svelte')).toEqual(['svelte', 'kit', 'routing']);
+		expect(searchTerms('  ')).toEqual([]);
+	});
+});
+
+describe('matchesSearchMode', () => {
+	const text = 'Sorting arrays\nin  JavaScript';
+
+	it('needs the whole phrase for exact matches', () => {
+		expect(matchesSearchMode(text, 'arrays in javascript', 'exact')).toBe(true);
+		expect(matchesSearchMode(text, 'javascript arrays', 'exact')).toBe(false);
+	});
+
+	it('needs every word to start a word for word matches', () => {
+		expect(matchesSearchMode(text, 'javascript sort', 'words')).toBe(true);
+		expect(matchesSearchMode(text, 'script sort', 'words')).toBe(false);
+	});
+
+	it('keeps everything the index found for fuzzy matches', () => {
+		expect(matchesSearchMode(text, 'python', 'fuzzy')).toBe(true);
+	});
+});
+
+describe('searchSnippet', () => {
+	it('marks words starting with a term, ignoring case', () => {
+		expect(render(searchSnippet('Sorting arrays in JS.\nUse sort()', 'sort'))).toBe(
+			'[Sort]ing arrays in JS. Use [sort]()'
+		);
+	});
+
+	it('does not match in the middle of a word', () => {
+		expect(render(searchSnippet('resort and sorted', 'sort'))).toBe('resort and [sort]ed');
+	});
+
+	it('cuts around the first match at a word boundary', () => {
+		const content = `${'lorem ipsum '.repeat(20)}needle ${'dolor sit '.repeat(40)}`;
+		const snippet = render(searchSnippet(content, 'needle', 100));
+
+		expect(snippet.startsWith('…ipsum')).toBe(true);
+		expect(snippet).toContain('[needle]');
+		expect(snippet.endsWith('…')).toBe(true);
+	});
+
+	it('falls back to the start of the content without a match', () => {
+		expect(render(searchSnippet('Hello world', 'nothing'))).toBe('Hello world');
+	});
+});
@@ -0,0 +1,86 @@
+export type SnippetPart = {
+	text: string;
+	match: boolean;
+};
+
+/** Characters of context kept before the first match */
+const LEADING_CONTEXT = 60;
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Search terms the way the search index reads them, the text split into words
+ */
+export function searchTerms(searchTerm: string): string[] {
+	return Array.from(new Set(searchTerm.toLowerCase().split(/[^\p{L}\p{N}]+/u))).filter(Boolean);
+}
+
+/**
+ * How closely a match has to follow the search term. The search index ranks text containing
+ * any of the terms (`fuzzy`), `words` needs every term and `exact` the whole phrase.
+ */
+export type SearchMode = 'exact' | 'words' | 'fuzzy';
+
+/**
+ * Whether `text`, found by the search index, matches the search term in `mode`
+ */
+export function matchesSearchMode(text: string, searchTerm: string, mode: SearchMode): boolean {
+	if (mode === 'fuzzy') return true;
+
+	if (mode === 'exact') {
+		const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+		return normalize(text).includes(normalize(searchTerm));
+	}
+
+	// Like the search index, a term matches the start of a word
+	return searchTerms(searchTerm).every((term) =>
+		new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`, 'iu').test(text)
+	);
+}
+
+/**
+ * Cut the part of `content` around the first match and mark every word starting with one of
+ * the search terms
+ */
+export function searchSnippet(content: string, searchTerm: string, maxLength = 200): SnippetPart[] {
+	const text = content.replace(/\s+/g, ' ').trim();
+	const terms = searchTerms(searchTerm);
+
+	const ranges: [number, number][] = [];
+	if (terms.length > 0) {
+		const pattern = new RegExp(
+			`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})`,
+			'giu'
+		);
+		for (const match of text.matchAll(pattern)) {
+			ranges.push([match.index, match.index + match[0].length]);
+		}
+	}
+
+	let start = Math.max(0, (ranges[0]?.[0] ?? 0) - LEADING_CONTEXT);
+	// Don't start in the middle of a word
+	if (start > 0) {
+		const space = text.indexOf(' ', start);
+		if (space !== -1 && space < (ranges[0]?.[0] ?? 0)) start = space + 1;
+	}
+	const end = Math.min(text.length, start + maxLength);
+
+	const parts: SnippetPart[] = [];
+	let position = start;
+	for (const [from, to] of ranges) {
+		if (from < position) continue;
+		if (from >= end) break;
+
+		if (from > position) parts.push({ text: text.slice(position, from), match: false });
+		parts.push({ text: text.slice(from, Math.min(to, end)), match: true });
+		position = Math.min(to, end);
+	}
+	if (position < end) parts.push({ text: text.slice(position, end), match: false });
+
+	if (start > 0) parts.unshift({ text: '…', match: false });
+	if (end < text.length) parts.push({ text: '…', match: false });
+
+	return parts;
+}
@@ -10,3 +10,12 @@ export function getFirstSentence(text: string): [string | null, string] {
 export function capitalize(text: string): string {
 	return text.charAt(0).toUpperCase() + text.slice(1);
 }
+
+/**
+ * Mask a secret so it can be recognized without being revealed, e.g. `sk-…c3d4`
+ */
+export function maskSecret(secret: string): string {
+	if (secret.length < 12) return '•'.repeat(8);
+
+	return `${secret.slice(0, 3)}…${secret.slice(-4)}`;
+}
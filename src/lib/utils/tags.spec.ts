@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTag, normalizeTags, parseSuggestedTags } from './tags';
+
+describe('normalizeTag', () => {
+	it('lowercases and joins words with dashes', () => {
+		expect(normalizeTag('  #Side Project! ')).toBe('side-project');
+		expect(normalizeTag('Café Ideas')).toBe('café-ideas');
+	});
+
+	it('returns an empty string when nothing is left', () => {
+		expect(normalizeTag(' #!? ')).toBe('');
+	});
+});
+
+describe('normalizeTags', () => {
+	it('drops empty tags and duplicates', () => {
+		expect(normalizeTags(['Work', 'work', '', '!!', 'Recipes'])).toEqual(['work', 'recipes']);
+	});
+
+	it('keeps at most 10 tags', () => {
+		const tags = Array.from({ length: 12 }, (_, i) => `tag ${i}`);
+		expect(normalizeTags(tags)).toHaveLength(10);
+	});
+});
+
+describe('parseSuggestedTags', () => {
+	it('reads comma separated tags', () => {
+		expect(parseSuggestedTags('TypeScript, Web Development, debugging')).toEqual([
+			'typescript',
+			'web-development',
+			'debugging',
+		]);
+	});
+
+	it('strips list markers and limits the count', () => {
+		expect(parseSuggestedTags('1. Cooking\n2) Italian\n- pasta\n* dinner', 3)).toEqual([
+			'cooking',
+			'italian',
+			'pasta',
+		]);
+	});
+});
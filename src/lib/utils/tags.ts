@@ -0,0 +1,32 @@
+export const MAX_TAGS = 10;
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * The form tags are stored in, lowercase words joined by dashes. Empty when nothing usable is
+ * left, e.g. `"  #Side Project! "` becomes `"side-project"`
+ */
+export function normalizeTag(tag: string): string {
+	return tag
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.slice(0, MAX_TAG_LENGTH)
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Normalized tags without empty ones or duplicates, at most `MAX_TAGS`
+ */
+export function normalizeTags(tags: string[]): string[] {
+	const normalized = new Set(tags.map(normalizeTag).filter(Boolean));
+	return [...normalized].slice(0, MAX_TAGS);
+}
+
+/**
+ * Tags from a model's answer, comma separated or one per line with optional list markers
+ */
+export function parseSuggestedTags(text: string, limit = 3): string[] {
+	const tags = text.split(/[,\n]/).map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, ''));
+
+	return normalizeTags(tags).slice(0, limit);
+}
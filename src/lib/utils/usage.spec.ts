@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+	addUsage,
+	calculateCostUsd,
+	estimateTokens,
+	fromReportedUsage,
+	totalTokens,
+} from './usage';
+
+describe('estimateTokens', () => {
+	it('rounds up to whole tokens', () => {
+		expect(estimateTokens('')).toBe(0);
+		expect(estimateTokens('a')).toBe(1);
+		expect(estimateTokens('abcdefgh')).toBe(2);
+		expect(estimateTokens('abcdefghi')).toBe(3);
+	});
+});
+
+describe('fromReportedUsage', () => {
+	it('maps provider usage and defaults missing fields to zero', () => {
+		expect(fromReportedUsage({ promptTokens: 10, completionTokens: 5 })).toEqual({
+			inputTokens: 10,
+			outputTokens: 5,
+			reasoningTokens: 0,
+		});
+	});
+
+	it('splits reasoning out of the completion tokens', () => {
+		expect(
+			fromReportedUsage({ promptTokens: 10, completionTokens: 50, reasoningTokens: 30 })
+		).toEqual({
+			inputTokens: 10,
+			outputTokens: 20,
+			reasoningTokens: 30,
+		});
+	});
+});
+
+describe('addUsage', () => {
+	it('sums every field', () => {
+		const usage = addUsage(
+			{ inputTokens: 1, outputTokens: 2, reasoningTokens: 3 },
+			{ inputTokens: 10, outputTokens: 20, reasoningTokens: 30 }
+		);
+
+		expect(usage).toEqual({ inputTokens: 11, outputTokens: 22, reasoningTokens: 33 });
+		expect(totalTokens(usage)).toBe(66);
+	});
+});
+
+describe('calculateCostUsd', () => {
+	const usage = { inputTokens: 1_000_000, outputTokens: 500_000, reasoningTokens: 100_000 };
+
+	it('prices tokens per million', () => {
+		expect(calculateCostUsd(usage, { inputTokens: 2, outputTokens: 10, reasoningTokens: 20 })).toBe(
+			2 + 5 + 2
+		);
+	});
+
+	it('bills reasoning at the output rate when it has no price of its own', () => {
+		expect(calculateCostUsd(usage, { inputTokens: 2, outputTokens: 10 })).toBe(2 + 5 + 1);
+	});
+
+	it('returns undefined without pricing', () => {
+		expect(calculateCostUsd(usage, undefined)).toBeUndefined();
+		expect(calculateCostUsd(usage, { inputTokens: 2 })).toBeUndefined();
+	});
+});
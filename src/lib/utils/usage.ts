@@ -0,0 +1,77 @@
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+}
+
+/** USD per 1M tokens, as reported by `ModelInfo.pricing` */
+export interface TokenPricing {
+	inputTokens?: number;
+	outputTokens?: number;
+	reasoningTokens?: number;
+}
+
+/** Usage as reported on the final chunk of a stream */
+export interface ReportedUsage {
+	promptTokens?: number;
+	completionTokens?: number;
+	reasoningTokens?: number;
+}
+
+// Rough average for English text across the common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, reasoningTokens: 0 };
+
+/**
+ * Estimate the token count of a piece of text, for providers that don't report usage
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Providers count reasoning tokens as part of the completion, so split them out
+ * to avoid billing them twice
+ */
+export function fromReportedUsage(usage: ReportedUsage): TokenUsage {
+	const reasoningTokens = usage.reasoningTokens ?? 0;
+
+	return {
+		inputTokens: usage.promptTokens ?? 0,
+		outputTokens: Math.max(0, (usage.completionTokens ?? 0) - reasoningTokens),
+		reasoningTokens,
+	};
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+	return {
+		inputTokens: a.inputTokens + b.inputTokens,
+		outputTokens: a.outputTokens + b.outputTokens,
+		reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+	};
+}
+
+export function totalTokens(usage: TokenUsage): number {
+	return usage.inputTokens + usage.outputTokens + usage.reasoningTokens;
+}
+
+/**
+ * Cost in USD of the given usage, or `undefined` when the model has no pricing.
+ * Reasoning tokens are billed at the output rate unless the model prices them separately.
+ */
+export function calculateCostUsd(
+	usage: TokenUsage,
+	pricing: TokenPricing | undefined
+): number | undefined {
+	if (pricing?.inputTokens === undefined || pricing.outputTokens === undefined) return undefined;
+
+	const reasoningRate = pricing.reasoningTokens ?? pricing.outputTokens;
+
+	return (
+		(usage.inputTokens * pricing.inputTokens +
+			usage.outputTokens * pricing.outputTokens +
+			usage.reasoningTokens * reasoningRate) /
+		1_000_000
+	);
+}
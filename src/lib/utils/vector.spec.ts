@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { fitDimensions } from './vector';
+
+describe('fitDimensions', () => {
+	it('cuts longer vectors and scales them to unit length', () => {
+		expect(fitDimensions([3, 4, 12], 2)._unsafeUnwrap()).toEqual([0.6, 0.8]);
+	});
+
+	it('normalizes vectors that already fit', () => {
+		expect(fitDimensions([0, 2], 2)._unsafeUnwrap()).toEqual([0, 1]);
+	});
+
+	it('rejects vectors that are too short or empty', () => {
+		expect(fitDimensions([1], 2).isErr()).toBe(true);
+		expect(fitDimensions([0, 0, 1], 2).isErr()).toBe(true);
+	});
+});
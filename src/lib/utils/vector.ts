@@ -0,0 +1,18 @@
+import { err, ok, type Result } from 'neverthrow';
+
+/**
+ * Bring an embedding to the index's length. Longer vectors are cut and scaled back to unit
+ * length, which keeps them meaningful for models trained for it such as OpenAI's
+ * `text-embedding-3` family.
+ */
+export function fitDimensions(vector: number[], dimensions: number): Result<number[], string> {
+	if (vector.length < dimensions) {
+		return err(`Expected at least ${dimensions} dimensions, got ${vector.length}`);
+	}
+
+	const cut = vector.slice(0, dimensions);
+	const norm = Math.hypot(...cut);
+	if (norm === 0) return err('Embedding is empty');
+
+	return ok(cut.map((value) => value / norm));
+}
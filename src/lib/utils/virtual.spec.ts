@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { itemOffsets, visibleRange } from './virtual';
+
+describe('itemOffsets', () => {
+	it('adds up the sizes', () => {
+		expect(itemOffsets([10, 20, 5])).toEqual([0, 10, 30, 35]);
+		expect(itemOffsets([])).toEqual([0]);
+	});
+});
+
+describe('visibleRange', () => {
+	const offsets = itemOffsets([10, 10, 10, 10, 10]);
+
+	it('includes items partially in view', () => {
+		expect(visibleRange(offsets, 15, 35)).toEqual({ start: 1, end: 4 });
+	});
+
+	it('excludes items that only touch the edges', () => {
+		expect(visibleRange(offsets, 10, 30)).toEqual({ start: 1, end: 3 });
+	});
+
+	it('widens the range by the overscan within bounds', () => {
+		expect(visibleRange(offsets, 15, 25, 2)).toEqual({ start: 0, end: 5 });
+		expect(visibleRange(offsets, 20, 30, 1)).toEqual({ start: 1, end: 4 });
+	});
+
+	it('is empty past the end of the list', () => {
+		expect(visibleRange(offsets, 100, 120)).toEqual({ start: 5, end: 5 });
+		expect(visibleRange(itemOffsets([]), 0, 100)).toEqual({ start: 0, end: 0 });
+	});
+
+	it('starts at the top when the viewport is above the list', () => {
+		expect(visibleRange(offsets, -50, 5)).toEqual({ start: 0, end: 1 });
+	});
+});
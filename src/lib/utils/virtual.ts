@@ -0,0 +1,55 @@
+/**
+ * Start offset of every item of a list laid out one after another, followed by the total size
+ */
+export function itemOffsets(sizes: number[]): number[] {
+	const offsets = [0];
+	for (const size of sizes) {
+		offsets.push(offsets[offsets.length - 1]! + size);
+	}
+	return offsets;
+}
+
+export type ItemRange = {
+	start: number;
+	/** Exclusive */
+	end: number;
+};
+
+/**
+ * Items of the list overlapping `[viewportStart, viewportEnd)`, widened by `overscan` items on
+ * each side so they are rendered before they scroll into view
+ *
+ * @param offsets Result of `itemOffsets`
+ */
+export function visibleRange(
+	offsets: number[],
+	viewportStart: number,
+	viewportEnd: number,
+	overscan = 0
+): ItemRange {
+	const count = offsets.length - 1;
+	if (count <= 0) return { start: 0, end: 0 };
+
+	// First item ending after the start of the viewport
+	let low = 0;
+	let high = count;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (offsets[mid + 1]! <= viewportStart) low = mid + 1;
+		else high = mid;
+	}
+	const first = low;
+
+	// First item starting at or after the end of the viewport
+	high = count;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (offsets[mid]! < viewportEnd) low = mid + 1;
+		else high = mid;
+	}
+
+	return {
+		start: Math.max(0, Math.min(first, count) - overscan),
+		end: Math.min(count, Math.max(low, first) + overscan),
+	};
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { WriteCoalescer } from './write-coalescer';
+
+describe('WriteCoalescer', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('writes the first change right away and batches the following ones', async () => {
+		const write = vi.fn(async () => {});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 100, maxBytes: 1000 });
+
+		coalescer.push(1);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(write).toHaveBeenCalledTimes(1);
+
+		for (let i = 0; i < 50; i++) coalescer.push(1);
+		await vi.advanceTimersByTimeAsync(50);
+		expect(write).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(50);
+		expect(write).toHaveBeenCalledTimes(2);
+	});
+
+	it('writes early once the byte budget is exceeded', async () => {
+		const write = vi.fn(async () => {});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 1000, maxBytes: 10 });
+
+		coalescer.push(1);
+		await vi.advanceTimersByTimeAsync(0);
+		coalescer.push(5);
+		coalescer.push(5);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(write).toHaveBeenCalledTimes(2);
+	});
+
+	it('never runs writes concurrently', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const write = vi.fn(async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 30));
+			running--;
+		});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 10, maxBytes: 1 });
+
+		for (let i = 0; i < 5; i++) {
+			coalescer.push(1);
+			await vi.advanceTimersByTimeAsync(5);
+		}
+		const flushed = coalescer.flush();
+		await vi.advanceTimersByTimeAsync(500);
+		await flushed;
+
+		expect(maxRunning).toBe(1);
+	});
+
+	it('flush writes the pending change and clears the timer', async () => {
+		const write = vi.fn(async () => {});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 100 });
+
+		coalescer.push();
+		await vi.advanceTimersByTimeAsync(0);
+		coalescer.push();
+		await coalescer.flush();
+		expect(write).toHaveBeenCalledTimes(2);
+
+		await vi.advanceTimersByTimeAsync(200);
+		expect(write).toHaveBeenCalledTimes(2);
+	});
+
+	it('flush does nothing when there is no pending change', async () => {
+		const write = vi.fn(async () => {});
+		const coalescer = new WriteCoalescer(write);
+
+		await coalescer.flush();
+		expect(write).not.toHaveBeenCalled();
+	});
+
+	it('keeps writing after a failed write', async () => {
+		const write = vi.fn(async () => {
+			throw new Error('boom');
+		});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 0 });
+
+		coalescer.push();
+		await coalescer.flush();
+		coalescer.push();
+		await coalescer.flush();
+
+		expect(write).toHaveBeenCalledTimes(2);
+	});
+
+	it('cancel drops the pending change', async () => {
+		const write = vi.fn(async () => {});
+		const coalescer = new WriteCoalescer(write, { intervalMs: 100 });
+
+		coalescer.push();
+		await vi.advanceTimersByTimeAsync(0);
+		coalescer.push();
+		coalescer.cancel();
+		await vi.advanceTimersByTimeAsync(200);
+		await coalescer.flush();
+
+		expect(write).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,100 @@
+export interface WriteCoalescerOptions {
+	/** Longest time a change may wait before being written */
+	intervalMs?: number;
+	/** Write early once this many bytes of changes have piled up */
+	maxBytes?: number;
+}
+
+/**
+ * Collapses a stream of changes into as few writes as possible.
+ *
+ * `write` always persists the latest state, so skipped intermediate writes lose nothing.
+ * Writes never overlap, and `flush` resolves once the latest state has been written.
+ */
+export class WriteCoalescer {
+	#write: () => Promise<unknown>;
+	#intervalMs: number;
+	#maxBytes: number;
+
+	#dirty = false;
+	#pendingBytes = 0;
+	#lastWriteAt = 0;
+	#timer: ReturnType<typeof setTimeout> | null = null;
+	#inFlight: Promise<void> | null = null;
+
+	writes = 0;
+
+	constructor(write: () => Promise<unknown>, options: WriteCoalescerOptions = {}) {
+		this.#write = write;
+		this.#intervalMs = options.intervalMs ?? 150;
+		this.#maxBytes = options.maxBytes ?? 2048;
+	}
+
+	/**
+	 * Record a change of `bytes` bytes, writing it now or later depending on the budgets
+	 */
+	push(bytes = 0): void {
+		this.#dirty = true;
+		this.#pendingBytes += bytes;
+
+		const elapsed = Date.now() - this.#lastWriteAt;
+
+		if (this.#pendingBytes >= this.#maxBytes || elapsed >= this.#intervalMs) {
+			void this.#run();
+			return;
+		}
+
+		this.#timer ??= setTimeout(() => {
+			this.#timer = null;
+			void this.#run();
+		}, this.#intervalMs - elapsed);
+	}
+
+	/**
+	 * Write any pending change and wait for every write to settle
+	 */
+	async flush(): Promise<void> {
+		await this.#run();
+	}
+
+	/**
+	 * Drop pending changes, for when the state is about to be overwritten anyway
+	 */
+	cancel(): void {
+		this.#clearTimer();
+		this.#dirty = false;
+		this.#pendingBytes = 0;
+	}
+
+	#clearTimer() {
+		if (this.#timer === null) return;
+
+		clearTimeout(this.#timer);
+		this.#timer = null;
+	}
+
+	async #run(): Promise<void> {
+		this.#clearTimer();
+
+		while (this.#inFlight) await this.#inFlight;
+
+		if (!this.#dirty) return;
+
+		this.#dirty = false;
+		this.#pendingBytes = 0;
+		this.#lastWriteAt = Date.now();
+		this.writes++;
+
+		// Failures are the caller's to report from `write`, they must not stall later writes
+		this.#inFlight = this.#write()
+			.then(
+				() => undefined,
+				() => undefined
+			)
+			.finally(() => {
+				this.#inFlight = null;
+			});
+
+		await this.#inFlight;
+	}
+}
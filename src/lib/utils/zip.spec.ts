@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, ZIP_MAX_ENTRIES } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+	it('matches the standard check value', () => {
+		expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+		expect(crc32(new Uint8Array())).toBe(0);
+	});
+});
+
+describe('createZip', () => {
+	it('stores every file and points the directory at them', () => {
+		const zip = createZip([
+			{ name: 'account.json', data: '{}' },
+			{ name: 'conversations/héllo.md', data: '# Hi' },
+		])._unsafeUnwrap();
+		const view = new DataView(zip.buffer);
+
+		expect(view.getUint32(0, true)).toBe(0x04034b50);
+
+		const end = zip.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+
+		const centralOffset = view.getUint32(end + 16, true);
+		expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+
+		const secondName = encoder.encode('conversations/héllo.md');
+		const secondEntry = centralOffset + 46 + 'account.json'.length;
+		const localOffset = view.getUint32(secondEntry + 42, true);
+		expect(zip.slice(localOffset + 30, localOffset + 30 + secondName.length)).toEqual(secondName);
+		expect(
+			new TextDecoder().decode(
+				zip.slice(localOffset + 30 + secondName.length, localOffset + 34 + secondName.length)
+			)
+		).toBe('# Hi');
+	});
+
+	it('produces a valid empty archive', () => {
+		expect(createZip([])._unsafeUnwrap().length).toBe(22);
+	});
+
+	it('refuses more files than the format can count', () => {
+		const entries = Array.from({ length: ZIP_MAX_ENTRIES + 1 }, (_, i) => ({
+			name: `${i}.txt`,
+			data: '',
+		}));
+
+		expect(createZip(entries).isErr()).toBe(true);
+	});
+});
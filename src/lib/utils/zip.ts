@@ -0,0 +1,126 @@
+import { err, ok, type Result } from 'neverthrow';
+
+export type ZipEntry = {
+	/** Path inside the archive, `/` separated */
+	name: string;
+	data: Uint8Array | string;
+	modifiedAt?: Date;
+};
+
+/** The classic ZIP format counts entries in 16 bits and sizes and offsets in 32 bits */
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_BYTES = 0xffffffff;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time, the only timestamp every unzip tool understands */
+function dosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.max(date.getFullYear(), 1980);
+
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+/**
+ * Build a ZIP archive with the files stored uncompressed. Good enough for exports that are
+ * mostly text and already compressed media, without pulling in a compression library.
+ *
+ * Fails when the archive doesn't fit the format's limits, ZIP64 isn't supported.
+ */
+export function createZip(entries: ZipEntry[]): Result<Uint8Array<ArrayBuffer>, string> {
+	if (entries.length > ZIP_MAX_ENTRIES) {
+		return err(`A zip archive can hold at most ${ZIP_MAX_ENTRIES} files`);
+	}
+
+	const encoder = new TextEncoder();
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+		if (offset + 30 + name.length + data.length > ZIP_MAX_BYTES) {
+			return err('The zip archive would be larger than 4 GB');
+		}
+
+		const crc = crc32(data);
+		const { time, date } = dosDateTime(entry.modifiedAt ?? new Date());
+
+		const local = new Uint8Array(30 + name.length);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, 0x04034b50, true);
+		localView.setUint16(4, 20, true); // version needed
+		localView.setUint16(6, 0x0800, true); // names are UTF-8
+		localView.setUint16(8, 0, true); // stored
+		localView.setUint16(10, time, true);
+		localView.setUint16(12, date, true);
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, data.length, true);
+		localView.setUint32(22, data.length, true);
+		localView.setUint16(26, name.length, true);
+		local.set(name, 30);
+
+		const central = new Uint8Array(46 + name.length);
+		const centralView = new DataView(central.buffer);
+		centralView.setUint32(0, 0x02014b50, true);
+		centralView.setUint16(4, 20, true); // version made by
+		centralView.setUint16(6, 20, true);
+		centralView.setUint16(8, 0x0800, true);
+		centralView.setUint16(10, 0, true);
+		centralView.setUint16(12, time, true);
+		centralView.setUint16(14, date, true);
+		centralView.setUint32(16, crc, true);
+		centralView.setUint32(20, data.length, true);
+		centralView.setUint32(24, data.length, true);
+		centralView.setUint16(28, name.length, true);
+		centralView.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		localParts.push(local, data);
+		centralParts.push(central);
+		offset += local.length + data.length;
+	}
+
+	const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+	if (offset + centralSize + 22 > ZIP_MAX_BYTES) {
+		return err('The zip archive would be larger than 4 GB');
+	}
+
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, entries.length, true);
+	endView.setUint16(10, entries.length, true);
+	endView.setUint32(12, centralSize, true);
+	endView.setUint32(16, offset, true);
+
+	const zip = new Uint8Array(offset + centralSize + end.length);
+	let position = 0;
+	for (const part of [...localParts, ...centralParts, end]) {
+		zip.set(part, position);
+		position += part.length;
+	}
+
+	return ok(zip);
+}
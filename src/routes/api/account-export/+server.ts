@@ -0,0 +1,145 @@
+import { api } from '$lib/backend/convex/_generated/api';
+import {
+	conversationToMarkdown,
+	exportFileName,
+	toConversationExport,
+} from '$lib/utils/conversation-export';
+import { createZip, type ZipEntry } from '$lib/utils/zip';
+import { error, type RequestHandler } from '@sveltejs/kit';
+import { getSessionCookie } from 'better-auth/cookies';
+import { ConvexHttpClient } from 'convex/browser';
+import { ResultAsync } from 'neverthrow';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+/** The archive is built in memory, larger accounts get an error instead */
+const MAX_EXPORT_BYTES = 512 * 1024 * 1024;
+
+const TOO_LARGE_MESSAGE =
+	'The account is too large to export at once, export conversations from the sidebar instead';
+
+/**
+ * Download everything stored for the account as a zip: the account's settings, every
+ * conversation as JSON and Markdown, and the uploaded attachments
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	const cookie = getSessionCookie(request.headers);
+	const sessionToken = cookie?.split('.')[0] ?? null;
+
+	if (!sessionToken) {
+		return error(401, 'Unauthorized');
+	}
+
+	const accountResult = await ResultAsync.fromPromise(
+		client.query(api.account.exportData, { session_token: sessionToken }),
+		(e) => `Failed to get account data: ${e}`
+	);
+
+	if (accountResult.isErr()) {
+		return error(500, accountResult.error);
+	}
+
+	const { conversations, ...account } = accountResult.value;
+	const exportedAt = Date.now();
+	const entries: ZipEntry[] = [];
+	const failures: string[] = [];
+	const encoder = new TextEncoder();
+	// Bytes of the files collected so far
+	let size = 0;
+
+	// One conversation at a time, the messages of a whole account can be too much for one query
+	for (const conversation of conversations) {
+		const messagesResult = await ResultAsync.fromPromise(
+			client.query(api.messages.getAllVersionsFromConversation, {
+				conversation_id: conversation._id,
+				session_token: sessionToken,
+			}),
+			(e) => `${e}`
+		);
+
+		if (messagesResult.isErr()) {
+			failures.push(`${conversation.title}: ${messagesResult.error}`);
+			continue;
+		}
+
+		const exported = toConversationExport(conversation, messagesResult.value, exportedAt);
+		const modifiedAt = new Date(conversation.updated_at ?? conversation._creationTime);
+		const baseName = `conversations/${conversation._id}-`;
+
+		const json = encoder.encode(JSON.stringify(exported, null, 2));
+		const markdown = encoder.encode(conversationToMarkdown(exported));
+		size += json.length + markdown.length;
+		if (size > MAX_EXPORT_BYTES) return error(413, TOO_LARGE_MESSAGE);
+
+		entries.push(
+			{ name: baseName + exportFileName(exported, 'json'), data: json, modifiedAt },
+			{ name: baseName + exportFileName(exported, 'markdown'), data: markdown, modifiedAt }
+		);
+
+		const filesResult = await ResultAsync.fromPromise(
+			client.query(api.storage.getConversationFiles, {
+				conversation_id: conversation._id,
+				session_token: sessionToken,
+			}),
+			(e) => `${e}`
+		);
+
+		if (filesResult.isErr()) {
+			failures.push(`${conversation.title}, attachments: ${filesResult.error}`);
+			continue;
+		}
+
+		// Only files from Convex storage are downloaded, the urls saved on messages come from the client
+		for (const attachment of filesResult.value) {
+			if (size + attachment.size > MAX_EXPORT_BYTES) return error(413, TOO_LARGE_MESSAGE);
+
+			const file = await ResultAsync.fromPromise(
+				fetch(attachment.url).then(async (res) => {
+					if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+
+					const data = new Uint8Array(await res.arrayBuffer());
+					if (data.length !== attachment.size) throw new Error('Unexpected file size');
+					return data;
+				}),
+				(e) => `${e}`
+			);
+
+			if (file.isErr()) {
+				failures.push(`${conversation.title}, ${attachment.file_name}: ${file.error}`);
+				continue;
+			}
+
+			size += file.value.length;
+			entries.push({
+				name: `attachments/${conversation._id}/${attachment.storage_id}-${attachment.file_name}`,
+				data: file.value,
+				modifiedAt: new Date(attachment.message_created_at),
+			});
+		}
+	}
+
+	entries.unshift({
+		name: 'account.json',
+		data: JSON.stringify({ exported_at: exportedAt, ...account }, null, 2),
+	});
+
+	if (failures.length > 0) {
+		entries.push({
+			name: 'errors.txt',
+			data: `These couldn't be exported:\n\n${failures.join('\n')}\n`,
+		});
+	}
+
+	const zip = createZip(entries);
+	if (zip.isErr()) return error(413, zip.error);
+
+	const date = new Date(exportedAt).toISOString().slice(0, 10);
+
+	return new Response(zip.value, {
+		headers: {
+			'Content-Type': 'application/zip',
+			'Content-Disposition': `attachment; filename="thom-chat-export-${date}.zip"`,
+		},
+	});
+};
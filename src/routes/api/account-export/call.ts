@@ -0,0 +1,23 @@
+import { ResultAsync } from 'neverthrow';
+
+export async function callAccountExport() {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/account-export');
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			const disposition = res.headers.get('Content-Disposition') ?? '';
+			const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'export.zip';
+
+			return { fileName, blob: await res.blob() };
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
@@ -64,25 +64,25 @@ export const POST: RequestHandler = async ({ request }) => {
 		return error(403, 'Conversation not found or unauthorized');
 	}
 
-	// Try to cancel the generation
-	const abortController = generationAbortControllers.get(args.conversation_id);
-	let cancelled = false;
+	// The job may run on another instance, it picks the request up on its next heartbeat
+	const cancelJobResult = await ResultAsync.fromPromise(
+		client.mutation(api.generation_jobs.cancel, {
+			conversation_id: args.conversation_id as Id<'conversations'>,
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to cancel generation job: ${e}`
+	);
+
+	if (cancelJobResult.isErr()) {
+		return error(500, cancelJobResult.error);
+	}
 
+	// Stop right away when the generation runs in this process
+	const abortController = generationAbortControllers.get(args.conversation_id);
 	if (abortController) {
 		abortController.abort();
 		generationAbortControllers.delete(args.conversation_id);
-		cancelled = true;
-
-		// Update conversation generating status to false
-		await ResultAsync.fromPromise(
-			client.mutation(api.conversations.updateGenerating, {
-				conversation_id: args.conversation_id as Id<'conversations'>,
-				generating: false,
-				session_token: sessionToken,
-			}),
-			(e) => `Failed to update generating status: ${e}`
-		);
 	}
 
-	return response({ ok: true, cancelled });
+	return response({ ok: true, cancelled: cancelJobResult.value || abortController !== undefined });
 };
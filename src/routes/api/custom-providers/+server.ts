@@ -0,0 +1,94 @@
+import { error, json, type RequestHandler } from '@sveltejs/kit';
+import { ConvexHttpClient } from 'convex/browser';
+import { ok, ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import { encryptApiKey } from '$lib/services/user-keys.server';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+const endpointSchema = z.object({
+	base_url: z.string(),
+	// Empty keeps the current key when updating
+	key: z.string().trim().optional(),
+	models: z.array(z.string()),
+});
+
+const reqBodySchema = z.discriminatedUnion('action', [
+	endpointSchema.extend({ action: z.literal('create'), name: z.string() }),
+	endpointSchema.extend({ action: z.literal('update'), provider_id: z.string() }),
+]);
+
+export type SaveCustomProviderRequestBody = z.infer<typeof reqBodySchema>;
+
+export type SaveCustomProviderResponse = {
+	ok: true;
+};
+
+function response(res: SaveCustomProviderResponse) {
+	return json(res);
+}
+
+/**
+ * Endpoint keys are encrypted here, before they reach Convex
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const session = await locals.auth();
+	if (!session) {
+		return error(401, 'Unauthorized');
+	}
+
+	const bodyResult = await ResultAsync.fromPromise(
+		request.json(),
+		() => 'Failed to parse request body'
+	);
+
+	if (bodyResult.isErr()) {
+		return error(400, 'Failed to parse request body');
+	}
+
+	const parsed = reqBodySchema.safeParse(bodyResult.value);
+	if (!parsed.success) {
+		return error(400, z.prettifyError(parsed.error));
+	}
+	const args = parsed.data;
+
+	const encrypted = args.key ? encryptApiKey(args.key) : ok(undefined);
+	if (encrypted.isErr()) {
+		console.error(encrypted.error);
+		return error(500, 'Failed to encrypt key');
+	}
+
+	const key = encrypted.value && {
+		encrypted_key: encrypted.value.encrypted_key,
+		key_preview: encrypted.value.preview,
+	};
+
+	const saveResult = await ResultAsync.fromPromise(
+		args.action === 'create'
+			? client.mutation(api.user_custom_providers.create, {
+					name: args.name,
+					base_url: args.base_url,
+					models: args.models,
+					...key,
+					session_token: session.session.token,
+				})
+			: client.mutation(api.user_custom_providers.update, {
+					providerId: args.provider_id as Id<'user_custom_providers'>,
+					base_url: args.base_url,
+					models: args.models,
+					...key,
+					session_token: session.session.token,
+				}),
+		// Convex validation errors are meant for the user, e.g. a duplicate name
+		(e) => (e instanceof Error ? e.message : `${e}`)
+	);
+
+	if (saveResult.isErr()) {
+		return error(400, saveResult.error);
+	}
+
+	return response({ ok: true });
+};
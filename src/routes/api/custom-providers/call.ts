@@ -0,0 +1,27 @@
+import { ResultAsync } from 'neverthrow';
+import type { SaveCustomProviderRequestBody, SaveCustomProviderResponse } from './+server';
+
+export async function callSaveCustomProvider(args: SaveCustomProviderRequestBody) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/custom-providers', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(args),
+			});
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			return res.json() as Promise<SaveCustomProviderResponse>;
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
@@ -6,7 +6,7 @@ import { PUBLIC_CONVEX_URL } from '$env/static/public';
 import { api } from '$lib/backend/convex/_generated/api';
 import { parseMessageForRules } from '$lib/utils/rules';
 import { createModelManager } from '$lib/services/model-manager';
-import type { UserApiKeys } from '$lib/services/model-manager';
+import { getUserApiKeys, getUserCustomProviders } from '$lib/services/user-keys.server';
 
 const reqBodySchema = z.object({
 	prompt: z.string(),
@@ -28,29 +28,6 @@ function response({ enhanced_prompt }: { enhanced_prompt: string }) {
 	});
 }
 
-async function getUserApiKeys(sessionToken: string): Promise<UserApiKeys | null> {
-	const keysResult = await ResultAsync.fromPromise(
-		client.query(api.user_keys.all, {
-			session_token: sessionToken,
-		}),
-		(e) => `Failed to get user API keys: ${e}`
-	);
-
-	if (keysResult.isErr()) {
-		return null;
-	}
-
-	const keys = keysResult.value;
-	return {
-		openai: keys.openai,
-		anthropic: keys.anthropic,
-		gemini: keys.google,
-		mistral: keys.mistral,
-		cohere: keys.cohere,
-		openrouter: keys.openrouter,
-	};
-}
-
 export const POST: RequestHandler = async ({ request, locals }) => {
 	const bodyResult = await ResultAsync.fromPromise(
 		request.json(),
@@ -73,17 +50,23 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		return error(401, 'You must be logged in to enhance a prompt');
 	}
 
-	// Get user API keys
-	const userApiKeys = await getUserApiKeys(session.session.token);
-	if (!userApiKeys) {
+	// Get user API keys and custom endpoints
+	const [userApiKeysResult, customProvidersResult] = await Promise.all([
+		getUserApiKeys(session.session.token),
+		getUserCustomProviders(session.session.token),
+	]);
+	if (userApiKeysResult.isErr() || customProvidersResult.isErr()) {
 		return error(500, 'Failed to get user API keys');
 	}
 
-	const hasAnyKey = Object.values(userApiKeys).some((key) => key);
+	const userApiKeys = userApiKeysResult.value;
+	const customProviders = customProvidersResult.value;
+
+	const hasAnyKey = Object.values(userApiKeys).some((key) => key) || customProviders.length > 0;
 	if (!hasAnyKey) {
 		return error(
 			400,
-			'No API keys configured. Please add at least one provider API key in settings to enhance prompts.'
+			'No API keys configured. Please add at least one provider API key or custom endpoint in settings to enhance prompts.'
 		);
 	}
 
@@ -106,7 +89,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	// Initialize model manager with user's API keys
 	const modelManager = createModelManager();
-	modelManager.initializeProviders(userApiKeys);
+	modelManager.initializeProviders(userApiKeys, customProviders);
 
 	// Try to find a fast, cheap model for prompt enhancement
 	const availableModels = await modelManager.listAvailableModels();
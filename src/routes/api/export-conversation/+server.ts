@@ -0,0 +1,76 @@
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import { renderConversationExport } from '$lib/services/conversation-export.server';
+import {
+	EXPORT_FILE_TYPES,
+	exportFileName,
+	exportFormats,
+	toConversationExport,
+} from '$lib/utils/conversation-export';
+import { error, type RequestHandler } from '@sveltejs/kit';
+import { getSessionCookie } from 'better-auth/cookies';
+import { ConvexHttpClient } from 'convex/browser';
+import { ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+const querySchema = z.object({
+	conversation_id: z.string(),
+	format: z.enum(exportFormats),
+});
+
+export type ExportConversationQuery = z.infer<typeof querySchema>;
+
+/**
+ * Download a conversation as Markdown, lossless JSON or a standalone HTML page
+ */
+export const GET: RequestHandler = async ({ request, url }) => {
+	const parsed = querySchema.safeParse(Object.fromEntries(url.searchParams));
+	if (!parsed.success) {
+		return error(400, parsed.error);
+	}
+	const args = parsed.data;
+
+	const cookie = getSessionCookie(request.headers);
+	const sessionToken = cookie?.split('.')[0] ?? null;
+
+	if (!sessionToken) {
+		return error(401, 'Unauthorized');
+	}
+
+	const dataResult = await ResultAsync.combine([
+		ResultAsync.fromPromise(
+			client.query(api.conversations.getById, {
+				conversation_id: args.conversation_id as Id<'conversations'>,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to get conversation: ${e}`
+		),
+		// Only the owner gets every version of the messages
+		ResultAsync.fromPromise(
+			client.query(api.messages.getAllVersionsFromConversation, {
+				conversation_id: args.conversation_id as Id<'conversations'>,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to get messages: ${e}`
+		),
+	]);
+
+	if (dataResult.isErr() || !dataResult.value[0]) {
+		return error(403, 'Conversation not found or unauthorized');
+	}
+
+	const [conversation, messages] = dataResult.value;
+	const exported = toConversationExport(conversation, messages);
+
+	const body = await renderConversationExport(exported, messages, args.format);
+
+	return new Response(body, {
+		headers: {
+			'Content-Type': EXPORT_FILE_TYPES[args.format].mimeType,
+			'Content-Disposition': `attachment; filename="${exportFileName(exported, args.format)}"`,
+		},
+	});
+};
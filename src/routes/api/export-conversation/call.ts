@@ -0,0 +1,24 @@
+import { ResultAsync } from 'neverthrow';
+import type { ExportConversationQuery } from './+server';
+
+export async function callExportConversation(args: ExportConversationQuery) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch(`/api/export-conversation?${new URLSearchParams(args)}`);
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			const disposition = res.headers.get('Content-Disposition') ?? '';
+			const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'conversation';
+
+			return { fileName, blob: await res.blob() };
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
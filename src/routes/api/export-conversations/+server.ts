@@ -0,0 +1,114 @@
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import { renderConversationExport } from '$lib/services/conversation-export.server';
+import { BULK_CONVERSATION_LIMIT } from '$lib/types';
+import {
+	exportFileName,
+	exportFormats,
+	toConversationExport,
+} from '$lib/utils/conversation-export';
+import { createZip, type ZipEntry } from '$lib/utils/zip';
+import { error, type RequestHandler } from '@sveltejs/kit';
+import { getSessionCookie } from 'better-auth/cookies';
+import { ConvexHttpClient } from 'convex/browser';
+import { ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+const reqBodySchema = z.object({
+	conversation_ids: z.array(z.string()).min(1).max(BULK_CONVERSATION_LIMIT),
+	format: z.enum(exportFormats),
+});
+
+export type ExportConversationsRequestBody = z.infer<typeof reqBodySchema>;
+
+/**
+ * Download the selected conversations as a zip with one file per conversation
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	const bodyResult = await ResultAsync.fromPromise(
+		request.json(),
+		() => 'Failed to parse request body'
+	);
+
+	if (bodyResult.isErr()) {
+		return error(400, 'Failed to parse request body');
+	}
+
+	const parsed = reqBodySchema.safeParse(bodyResult.value);
+	if (!parsed.success) {
+		return error(400, parsed.error);
+	}
+	const args = parsed.data;
+
+	const cookie = getSessionCookie(request.headers);
+	const sessionToken = cookie?.split('.')[0] ?? null;
+
+	if (!sessionToken) {
+		return error(401, 'Unauthorized');
+	}
+
+	const exportedAt = Date.now();
+	const entries: ZipEntry[] = [];
+	const failures: string[] = [];
+
+	for (const id of args.conversation_ids) {
+		const conversationId = id as Id<'conversations'>;
+		const dataResult = await ResultAsync.combine([
+			ResultAsync.fromPromise(
+				client.query(api.conversations.getById, {
+					conversation_id: conversationId,
+					session_token: sessionToken,
+				}),
+				(e) => `${e}`
+			),
+			ResultAsync.fromPromise(
+				client.query(api.messages.getAllVersionsFromConversation, {
+					conversation_id: conversationId,
+					session_token: sessionToken,
+				}),
+				(e) => `${e}`
+			),
+		]);
+
+		if (dataResult.isErr()) {
+			failures.push(`${id}: ${dataResult.error}`);
+			continue;
+		}
+
+		const [conversation, messages] = dataResult.value;
+		if (!conversation) {
+			failures.push(`${id}: Conversation not found`);
+			continue;
+		}
+
+		const exported = toConversationExport(conversation, messages, exportedAt);
+
+		entries.push({
+			name: `${conversation._id}-${exportFileName(exported, args.format)}`,
+			data: await renderConversationExport(exported, messages, args.format),
+			modifiedAt: new Date(conversation.updated_at ?? conversation._creationTime),
+		});
+	}
+
+	if (failures.length > 0) {
+		entries.push({
+			name: 'errors.txt',
+			data: `These couldn't be exported:\n\n${failures.join('\n')}\n`,
+		});
+	}
+
+	const zip = createZip(entries);
+	if (zip.isErr()) return error(413, zip.error);
+
+	const date = new Date(exportedAt).toISOString().slice(0, 10);
+
+	return new Response(zip.value, {
+		headers: {
+			'Content-Type': 'application/zip',
+			'Content-Disposition': `attachment; filename="conversations-${date}.zip"`,
+		},
+	});
+};
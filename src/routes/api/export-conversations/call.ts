@@ -0,0 +1,30 @@
+import { ResultAsync } from 'neverthrow';
+import type { ExportConversationsRequestBody } from './+server';
+
+export async function callExportConversations(args: ExportConversationsRequestBody) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/export-conversations', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(args),
+			});
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			const disposition = res.headers.get('Content-Disposition') ?? '';
+			const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'conversations.zip';
+
+			return { fileName, blob: await res.blob() };
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
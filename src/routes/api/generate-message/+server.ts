@@ -1,29 +1,62 @@
 import { PUBLIC_CONVEX_URL } from '$env/static/public';
 import { api } from '$lib/backend/convex/_generated/api';
 import type { Doc, Id } from '$lib/backend/convex/_generated/dataModel';
-import { Provider, type Annotation } from '$lib/types';
+import { COMPARE_MODEL_LIMITS, HEARTBEAT_INTERVAL_MS, Provider, type Annotation } from '$lib/types';
 import { error, json, type RequestHandler } from '@sveltejs/kit';
 import { waitUntil } from '@vercel/functions';
 import { getSessionCookie } from 'better-auth/cookies';
 import { ConvexHttpClient } from 'convex/browser';
-import { err, ok, Result, ResultAsync } from 'neverthrow';
+import { err, ok, okAsync, Result, ResultAsync } from 'neverthrow';
 import { z } from 'zod/v4';
-import { generationAbortControllers } from './cache.js';
+import { generationAbortControllers, generationStreams } from './cache.js';
+import { GenerationStream } from '$lib/utils/generation-stream';
 import { md } from '$lib/utils/markdown-it.js';
 import * as array from '$lib/utils/array';
 import { parseMessageForRules } from '$lib/utils/rules.js';
-import { createModelManager, type ChatModelManager } from '$lib/services/model-manager.js';
-import type { UserApiKeys } from '$lib/services/model-manager.js';
+import {
+	createModelManager,
+	type ChatModelManager,
+	type CompletionResult,
+} from '$lib/services/model-manager.js';
+import { getUserApiKeys, getUserCustomProviders } from '$lib/services/user-keys.server.js';
+import { supportsToolCalls } from '$lib/utils/model-capabilities.js';
+import { checkBudget, hasBudget, type BudgetStatus } from '$lib/utils/budget.js';
+import { WriteCoalescer } from '$lib/utils/write-coalescer.js';
+import {
+	addUsage,
+	calculateCostUsd,
+	EMPTY_USAGE,
+	estimateTokens,
+	fromReportedUsage,
+	totalTokens,
+	type ReportedUsage,
+} from '$lib/utils/usage.js';
+import { executeTool, getToolDefinitions, parseToolArguments } from '$lib/services/tools.server.js';
+import type { ToolCall } from '$lib/backend/convex/schema';
+import {
+	getEmbeddingModel,
+	indexMessages,
+	type EmbeddingModel,
+} from '$lib/services/embeddings.server.js';
 
 // Set to true to enable debug logging
 const ENABLE_LOGGING = true;
 
+// Streamed content is written at most this often, or sooner once enough of it piled up
+const STREAM_WRITE_INTERVAL_MS = 150;
+const STREAM_WRITE_MAX_BYTES = 2048;
+
+// Maximum number of tool call round trips before the model must answer
+const MAX_TOOL_STEPS = 5;
+
 const reqBodySchema = z
 	.object({
 		message: z.string().optional(),
 		model_id: z.string(),
 		session_token: z.string(),
 		conversation_id: z.string().optional(),
+		/** Project the new conversation is started in, ignored for existing conversations */
+		project_id: z.string().optional(),
 		web_search_enabled: z.boolean().optional(),
 		attachments: z
 			.array(
@@ -38,6 +71,16 @@ const reqBodySchema = z
 			)
 			.optional(),
 		reasoning_effort: z.enum(['low', 'medium', 'high']).optional(),
+		/** Assistant message to generate again, the new reply is added as a sibling version */
+		regenerate_message_id: z.string().optional(),
+		/** User message replaced by `message`, the edit is added as a sibling version */
+		edit_message_id: z.string().optional(),
+		/** Models answering `message` side by side, `model_id` is ignored when set */
+		compare_model_ids: z
+			.array(z.string())
+			.min(COMPARE_MODEL_LIMITS.min)
+			.max(COMPARE_MODEL_LIMITS.max)
+			.optional(),
 	})
 	.refine(
 		(data) => {
@@ -47,6 +90,33 @@ const reqBodySchema = z
 		{
 			message: 'You must provide a message when creating a new conversation',
 		}
+	)
+	.refine(
+		(data) => {
+			if (data.regenerate_message_id === undefined) return true;
+			return data.conversation_id !== undefined && data.message === undefined;
+		},
+		{
+			message: 'Regenerating requires a conversation and no new message',
+		}
+	)
+	.refine(
+		(data) => {
+			if (data.edit_message_id === undefined) return true;
+			return data.conversation_id !== undefined && data.message !== undefined;
+		},
+		{
+			message: 'Editing requires a conversation and the new message',
+		}
+	)
+	.refine(
+		(data) => {
+			if (data.compare_model_ids === undefined) return true;
+			return data.message !== undefined && data.regenerate_message_id === undefined;
+		},
+		{
+			message: 'Comparing models requires a new message',
+		}
 	);
 
 export type GenerateMessageRequestBody = z.infer<typeof reqBodySchema>;
@@ -54,6 +124,8 @@ export type GenerateMessageRequestBody = z.infer<typeof reqBodySchema>;
 export type GenerateMessageResponse = {
 	ok: true;
 	conversation_id: string;
+	/** Set when the user is getting close to one of their budgets */
+	budget_warning?: string;
 };
 
 function response(res: GenerateMessageResponse) {
@@ -68,27 +140,48 @@ function log(message: string, startTime: number): void {
 
 const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
 
-async function getUserApiKeys(sessionToken: string): Promise<Result<UserApiKeys, string>> {
-	const keysResult = await ResultAsync.fromPromise(
-		client.query(api.user_keys.all, {
-			session_token: sessionToken,
-		}),
-		(e) => `Failed to get user API keys: ${e}`
+/**
+ * Budget status for each of the models, in the same order. Settings and spend are only
+ * fetched once however many models are answering.
+ */
+async function getBudgetStatuses({
+	sessionToken,
+	modelIds,
+	modelManager,
+}: {
+	sessionToken: string;
+	modelIds: string[];
+	modelManager: ChatModelManager;
+}): Promise<Result<BudgetStatus[], string>> {
+	const settingsResult = await ResultAsync.fromPromise(
+		client.query(api.user_settings.get, { session_token: sessionToken }),
+		(e) => `Failed to get user settings: ${e}`
 	);
 
-	if (keysResult.isErr()) {
-		return err(keysResult.error);
-	}
+	if (settingsResult.isErr()) return err(settingsResult.error);
+	if (!hasBudget(settingsResult.value)) return ok(modelIds.map(() => ({ status: 'ok' })));
 
-	const keys = keysResult.value;
-	return ok({
-		openai: keys.openai,
-		anthropic: keys.anthropic,
-		google: keys.gemini,
-		mistral: keys.mistral,
-		cohere: keys.cohere,
-		openrouter: keys.openrouter,
-	});
+	const spendResult = await ResultAsync.fromPromise(
+		client.query(api.usage.monthToDate, { session_token: sessionToken }),
+		(e) => `Failed to get monthly spend: ${e}`
+	);
+
+	if (spendResult.isErr()) return err(spendResult.error);
+
+	// Budgets can be set per provider
+	const statuses = await Promise.all(
+		modelIds.map(async (modelId) => {
+			const model = await modelManager.getModel(modelId);
+
+			return checkBudget({
+				settings: settingsResult.value,
+				spend: spendResult.value,
+				provider: model?.provider ?? '',
+			});
+		})
+	);
+
+	return ok(statuses);
 }
 
 async function generateConversationTitle({
@@ -108,10 +201,11 @@ async function generateConversationTitle({
 
 	// Check if conversation currently has default title
 	const conversationResult = await ResultAsync.fromPromise(
-		client.query(api.conversations.get, {
+		client.query(api.conversations.getById, {
+			conversation_id: conversationId as Id<'conversations'>,
 			session_token: sessionToken,
 		}),
-		(e) => `Failed to get conversations: ${e}`
+		(e) => `Failed to get conversation: ${e}`
 	);
 
 	if (conversationResult.isErr()) {
@@ -119,21 +213,14 @@ async function generateConversationTitle({
 		return;
 	}
 
-	const conversations = conversationResult.value;
-	const conversation = conversations.find((c) => c._id === conversationId);
+	const conversation = conversationResult.value;
 
 	if (!conversation) {
 		log('Title generation: Conversation not found or already has custom title', startTime);
 		return;
 	}
 
-	// Try to find a fast, cheap model for title generation
-	const availableModels = await modelManager.listAvailableModels();
-	const titleModel =
-		availableModels.find((model) => model.id.includes('gemini-2.5-flash-lite')) ||
-		availableModels.find((model) => model.id.includes('kimi-k2')) ||
-		availableModels.find((model) => model.id.includes('gpt-5-mini')) ||
-		availableModels[0];
+	const titleModel = await modelManager.getUtilityModel();
 
 	if (!titleModel) {
 		log('Title generation: No suitable model available', startTime);
@@ -156,7 +243,7 @@ Also, do not interact with the message directly or answer it. Just generate the
 
 If its a simple hi, just name it "Greeting" or something like that.`;
 
-	const titleResult = await ResultAsync.fromPromise(
+	const titleResult = await ResultAsync.fromPromise<CompletionResult, string>(
 		provider.generateCompletion({
 			model: titleModel.id,
 			messages: [{ role: 'user', content: titlePrompt }],
@@ -209,6 +296,11 @@ async function generateAIResponse({
 	rulesResultPromise,
 	abortSignal,
 	reasoningEffort,
+	budgetStatus,
+	liveStream,
+	jobId,
+	comparedMessageId,
+	embeddingModel,
 }: {
 	conversationId: string;
 	sessionToken: string;
@@ -218,9 +310,21 @@ async function generateAIResponse({
 	rulesResultPromise: ResultAsync<Doc<'user_rules'>[], string>;
 	abortSignal?: AbortSignal;
 	reasoningEffort?: 'low' | 'medium' | 'high';
+	budgetStatus: BudgetStatus;
+	liveStream?: GenerationStream;
+	jobId: Id<'generation_jobs'>;
+	/**
+	 * User message answered by several models at once, the conversation keeps generating
+	 * until all of them are done
+	 */
+	comparedMessageId?: Id<'messages'>;
+	/** Indexes the question and the answer for semantic search, unset without a suitable key */
+	embeddingModel: EmbeddingModel | null;
 }) {
 	log('Starting AI response generation in background', startTime);
 
+	const comparing = comparedMessageId !== undefined;
+
 	if (abortSignal?.aborted) {
 		log('AI response generation aborted before starting', startTime);
 		return;
@@ -235,6 +339,7 @@ async function generateAIResponse({
 			messageId: undefined,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
@@ -247,6 +352,7 @@ async function generateAIResponse({
 			messageId: undefined,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
@@ -271,6 +377,7 @@ async function generateAIResponse({
 			messageId: undefined,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
@@ -294,6 +401,7 @@ async function generateAIResponse({
 			role: 'assistant',
 			session_token: sessionToken,
 			web_search_enabled: webSearchEnabled,
+			parent_id: comparedMessageId,
 		}),
 		(e) => `Failed to create assistant message: ${e}`
 	);
@@ -305,12 +413,41 @@ async function generateAIResponse({
 			messageId: undefined,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
 
 	const mid = messageCreationResult.value;
 	log('Background: Assistant message created', startTime);
+	liveStream?.start(mid);
+
+	// Lets the sweeper flag the message if this instance dies mid-generation
+	const attachMessageResult = await ResultAsync.fromPromise(
+		client.mutation(api.generation_jobs.heartbeat, {
+			job_id: jobId,
+			message_id: mid as Id<'messages'>,
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to attach message to generation job: ${e}`
+	);
+
+	if (attachMessageResult.isErr()) {
+		log(`Background: ${attachMessageResult.error}`, startTime);
+	}
+
+	// Checked before anything is sent to the provider so no more money is spent
+	if (budgetStatus.status === 'exceeded') {
+		handleGenerationError({
+			error: budgetStatus.message,
+			conversationId,
+			messageId: mid,
+			sessionToken,
+			startTime,
+			keepGenerating: comparing,
+		});
+		return;
+	}
 
 	if (rulesResult.isErr()) {
 		handleGenerationError({
@@ -319,6 +456,7 @@ async function generateAIResponse({
 			messageId: mid,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
@@ -332,6 +470,7 @@ async function generateAIResponse({
 			messageId: mid,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
@@ -398,85 +537,201 @@ ${attachedRules.map((r) => `- ${r.name}: ${r.rule}`).join('\n')}`,
 			messageId: mid,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
 		return;
 	}
 
-	// Generate streaming completion
-	let stream: AsyncIterable<any>;
-	try {
-		stream = provider.streamCompletion({
-			model: finalModelId,
-			messages: messagesToSend,
-			temperature: 0.7,
-			...(reasoningEffort && { reasoning_effort: reasoningEffort }),
-		});
-		log('Background: Stream created successfully', startTime);
-	} catch (error) {
-		handleGenerationError({
-			error: `Failed to create stream: API call failed: ${error}`,
-			conversationId,
-			messageId: mid,
-			sessionToken,
-			startTime,
-		});
-		return;
-	}
+	const tools = supportsToolCalls(model) ? getToolDefinitions() : undefined;
+	// Grows with assistant tool requests and tool results as the loop progresses
+	const conversationMessages: unknown[] = [...messagesToSend];
 
 	let content = '';
 	let reasoning = '';
 	let chunkCount = 0;
 	let generationId: string | null = null;
 	const annotations: Annotation[] = [];
+	const toolCalls: ToolCall[] = [];
+	let usage = EMPTY_USAGE;
+
+	const updateContent = () =>
+		ResultAsync.fromPromise(
+			client.mutation(api.messages.updateContent, {
+				message_id: mid,
+				content,
+				reasoning: reasoning.length > 0 ? reasoning : undefined,
+				session_token: sessionToken,
+				generation_id: generationId ?? undefined,
+				annotations,
+				reasoning_effort: reasoningEffort,
+				tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+			}),
+			(e) => `Failed to update message content: ${e}`
+		).mapErr((e) => {
+			log(`Background message update failed: ${e}`, startTime);
+			return e;
+		});
+
+	// Every write sends the whole message, so intermediate states can be skipped safely
+	const contentWriter = new WriteCoalescer(async () => await updateContent(), {
+		intervalMs: STREAM_WRITE_INTERVAL_MS,
+		maxBytes: STREAM_WRITE_MAX_BYTES,
+	});
 
 	try {
-		// Handle streaming response
-		for await (const chunk of stream) {
-			if (abortSignal?.aborted) {
-				log('AI response generation aborted during streaming', startTime);
-				break;
+		for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+			// Generate streaming completion
+			let stream: AsyncIterable<any>;
+			try {
+				stream = provider.streamCompletion({
+					model: finalModelId,
+					messages: conversationMessages,
+					temperature: 0.7,
+					...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+					// On the last step we stop offering tools so the model has to answer
+					...(tools && step < MAX_TOOL_STEPS && { tools }),
+				});
+				log(`Background: Stream created successfully (step ${step})`, startTime);
+			} catch (error) {
+				handleGenerationError({
+					error: `Failed to create stream: API call failed: ${error}`,
+					conversationId,
+					messageId: mid,
+					sessionToken,
+					startTime,
+					keepGenerating: comparing,
+				});
+				return;
+			}
+
+			if (step > 0 && content.length > 0) {
+				content += '\n\n';
+				liveStream?.append({ content: '\n\n' });
 			}
 
-			chunkCount++;
+			let stepContent = '';
+			let stepReasoning = '';
+			let stepUsage: ReportedUsage | null = null;
+			// Tool calls are streamed in fragments keyed by their index
+			const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+			// Handle streaming response
+			for await (const chunk of stream) {
+				if (abortSignal?.aborted) {
+					log('AI response generation aborted during streaming', startTime);
+					break;
+				}
 
-			// Extract content from chunk based on the kepler-ai-sdk format
-			if (chunk && typeof chunk === 'object') {
-				const chunkContent = chunk.delta || chunk.content || chunk.text || '';
-				const chunkReasoning = chunk.reasoning || '';
-				const chunkAnnotations = chunk.annotations || [];
+				chunkCount++;
+
+				// Extract content from chunk based on the kepler-ai-sdk format
+				if (chunk && typeof chunk === 'object') {
+					const chunkContent = chunk.delta || chunk.content || chunk.text || '';
+					const chunkReasoning = chunk.reasoning || '';
+					const chunkAnnotations = chunk.annotations || [];
+
+					for (const delta of chunk.toolCallDeltas ?? []) {
+						const pending = pendingToolCalls.get(delta.index) ?? {
+							id: '',
+							name: '',
+							arguments: '',
+						};
+						pendingToolCalls.set(delta.index, {
+							id: delta.id ?? pending.id,
+							name: delta.name ?? pending.name,
+							arguments: pending.arguments + (delta.arguments ?? ''),
+						});
+					}
+
+					// Only the final chunk carries usage, and only if the provider reports it
+					if (chunk.usage) stepUsage = chunk.usage;
+
+					reasoning += chunkReasoning;
+					stepReasoning += chunkReasoning;
+					content += chunkContent;
+					stepContent += chunkContent;
+					annotations.push(...chunkAnnotations);
+
+					if (!chunkContent && !chunkReasoning) continue;
+
+					generationId = chunk.id || generationId;
+
+					liveStream?.append({ content: chunkContent, reasoning: chunkReasoning });
+					contentWriter.push(chunkContent.length + chunkReasoning.length);
+				}
+			}
 
-				reasoning += chunkReasoning;
-				content += chunkContent;
-				annotations.push(...chunkAnnotations);
+			usage = addUsage(
+				usage,
+				stepUsage
+					? fromReportedUsage(stepUsage)
+					: {
+							inputTokens: estimateTokens(JSON.stringify(conversationMessages)),
+							outputTokens: estimateTokens(
+								stepContent +
+									Array.from(pendingToolCalls.values())
+										.map((call) => call.name + call.arguments)
+										.join('')
+							),
+							reasoningTokens: estimateTokens(stepReasoning),
+						}
+			);
 
-				if (!chunkContent && !chunkReasoning) continue;
+			if (abortSignal?.aborted || pendingToolCalls.size === 0) break;
 
-				generationId = chunk.id || generationId;
+			const requestedCalls = Array.from(pendingToolCalls.values()).map((call, i) => ({
+				...call,
+				id: call.id || `call_${step}_${i}`,
+			}));
 
-				const updateResult = await ResultAsync.fromPromise(
-					client.mutation(api.messages.updateContent, {
-						message_id: mid,
-						content,
-						reasoning: reasoning.length > 0 ? reasoning : undefined,
-						session_token: sessionToken,
-						generation_id: generationId,
-						annotations,
-						reasoning_effort: reasoningEffort,
-					}),
-					(e) => `Failed to update message content: ${e}`
-				);
+			log(
+				`Background: Model requested tools: ${requestedCalls.map((c) => c.name).join(', ')}`,
+				startTime
+			);
 
-				if (updateResult.isErr()) {
-					log(
-						`Background message update failed on chunk ${chunkCount}: ${updateResult.error}`,
-						startTime
-					);
+			conversationMessages.push({
+				role: 'assistant',
+				content: stepContent,
+				toolCalls: requestedCalls.map((call) => ({
+					id: call.id,
+					name: call.name,
+					arguments: parseToolArguments(call.arguments).unwrapOr({}),
+				})),
+			});
+
+			// Persist the pending calls so the UI can show them while they run
+			toolCalls.push(...requestedCalls);
+			liveStream?.setToolCalls(toolCalls);
+			contentWriter.push();
+			await contentWriter.flush();
+
+			for (const call of requestedCalls) {
+				const result = await executeTool(call, { conversationId, sessionToken, abortSignal });
+				const record = toolCalls.find((c) => c.id === call.id)!;
+
+				if (result.isOk()) {
+					record.result = result.value;
+				} else {
+					record.error = result.error;
 				}
+
+				conversationMessages.push({
+					role: 'tool',
+					content: result.isOk() ? result.value : `Error: ${result.error}`,
+					toolCallId: call.id,
+				});
 			}
+
+			liveStream?.setToolCalls(toolCalls);
+			contentWriter.push();
 		}
 
+		// The final message update below must not be overwritten by a late content write
+		await contentWriter.flush();
+		liveStream?.close();
+
 		log(
-			`Background stream processing completed. Processed ${chunkCount} chunks, final content length: ${content.length}`,
+			`Background stream processing completed. Processed ${chunkCount} chunks in ${contentWriter.writes} writes, final content length: ${content.length}`,
 			startTime
 		);
 
@@ -488,28 +743,56 @@ ${attachedRules.map((r) => `- ${r.name}: ${r.rule}`).join('\n')}`,
 
 		const contentHtmlResult = await contentHtmlResultPromise;
 
-		const [updateMessageResult, updateGeneratingResult] = await Promise.all([
+		const tokenCount = totalTokens(usage);
+		const costUsd = calculateCostUsd(usage, model.pricing);
+
+		log(
+			`Background: Used ${usage.inputTokens} input, ${usage.outputTokens} output and ${usage.reasoningTokens} reasoning tokens ($${costUsd ?? 'unknown'})`,
+			startTime
+		);
+
+		const [updateMessageResult, updateGeneratingResult, updateCostResult] = await Promise.all([
 			ResultAsync.fromPromise(
 				client.mutation(api.messages.updateMessage, {
 					message_id: mid,
-					token_count: undefined, // Will be calculated by provider if available
-					cost_usd: undefined, // Will be calculated by provider if available
+					token_count: tokenCount,
+					input_tokens: usage.inputTokens,
+					output_tokens: usage.outputTokens,
+					reasoning_tokens: usage.reasoningTokens,
+					cost_usd: costUsd,
 					generation_id: generationId,
 					session_token: sessionToken,
 					content_html: contentHtmlResult.unwrapOr(undefined),
+					latency_ms: Date.now() - startTime,
 				}),
 				(e) => `Failed to update message: ${e}`
 			),
+			// The last of the compared answers settles the conversation, see POST
+			comparing
+				? okAsync(undefined)
+				: ResultAsync.fromPromise(
+						client.mutation(api.conversations.updateGenerating, {
+							conversation_id: conversationId as Id<'conversations'>,
+							generating: false,
+							session_token: sessionToken,
+						}),
+						(e) => `Failed to update generating status: ${e}`
+					),
 			ResultAsync.fromPromise(
-				client.mutation(api.conversations.updateGenerating, {
+				client.mutation(api.conversations.updateCostUsd, {
 					conversation_id: conversationId as Id<'conversations'>,
-					generating: false,
+					cost_usd: costUsd ?? 0,
+					token_count: tokenCount,
 					session_token: sessionToken,
 				}),
-				(e) => `Failed to update generating status: ${e}`
+				(e) => `Failed to update conversation cost: ${e}`
 			),
 		]);
 
+		if (updateCostResult.isErr()) {
+			log(`Background conversation cost update failed: ${updateCostResult.error}`, startTime);
+		}
+
 		if (updateGeneratingResult.isErr()) {
 			log(`Background generating status update failed: ${updateGeneratingResult.error}`, startTime);
 			return;
@@ -523,18 +806,36 @@ ${attachedRules.map((r) => `- ${r.name}: ${r.rule}`).join('\n')}`,
 		}
 
 		log('Background: Message updated', startTime);
+
+		if (embeddingModel) {
+			const indexResult = await indexMessages({
+				sessionToken,
+				model: embeddingModel,
+				messages: [
+					...(lastUserMessage
+						? [{ id: lastUserMessage._id, content: lastUserMessage.content }]
+						: []),
+					{ id: mid as Id<'messages'>, content },
+				],
+			});
+
+			if (indexResult.isErr()) {
+				log(`Background: ${indexResult.error}`, startTime);
+			}
+		}
 	} catch (error) {
+		contentWriter.cancel();
+		await contentWriter.flush();
+		liveStream?.close(`${error}`);
+
 		handleGenerationError({
 			error: `Stream processing error: ${error}`,
 			conversationId,
 			messageId: mid,
 			sessionToken,
 			startTime,
+			keepGenerating: comparing,
 		});
-	} finally {
-		// Clean up the cached AbortController
-		generationAbortControllers.delete(conversationId);
-		log('Background: Cleaned up abort controller', startTime);
 	}
 }
 
@@ -571,48 +872,68 @@ export const POST: RequestHandler = async ({ request }) => {
 		return error(401, 'Unauthorized');
 	}
 
-	// Get user API keys
-	const userApiKeysResult = await getUserApiKeys(sessionToken);
+	// Get user API keys and custom endpoints
+	const [userApiKeysResult, customProvidersResult] = await Promise.all([
+		getUserApiKeys(sessionToken),
+		getUserCustomProviders(sessionToken),
+	]);
 	if (userApiKeysResult.isErr()) {
 		log(`Failed to get user API keys: ${userApiKeysResult.error}`, startTime);
 		return error(500, 'Failed to get user API keys');
 	}
 
+	if (customProvidersResult.isErr()) {
+		log(`Failed to get custom providers: ${customProvidersResult.error}`, startTime);
+		return error(500, 'Failed to get custom providers');
+	}
+
 	const userApiKeys = userApiKeysResult.value;
-	const hasAnyKey = Object.values(userApiKeys).some((key) => key);
+	const customProviders = customProvidersResult.value;
+	const hasAnyKey = Object.values(userApiKeys).some((key) => key) || customProviders.length > 0;
 
 	if (!hasAnyKey) {
 		log('User has no API keys configured', startTime);
 		return error(
 			400,
-			'No API keys configured. Please add at least one provider API key in settings.'
+			'No API keys configured. Please add at least one provider API key or custom endpoint in settings.'
 		);
 	}
 
 	// Initialize model manager with user's API keys
 	const modelManager = createModelManager();
-	modelManager.initializeProviders(userApiKeys);
+	modelManager.initializeProviders(userApiKeys, customProviders);
 
-	// Check if the requested model is available
-	const modelAvailable = await modelManager.isModelAvailable(args.model_id);
-	if (!modelAvailable) {
-		log(`Requested model ${args.model_id} not available`, startTime);
-		return error(
-			400,
-			`Model ${args.model_id} is not available. Please check your API keys and try a different model.`
-		);
+	const embeddingModel = getEmbeddingModel(userApiKeys);
+
+	const modelIds = args.compare_model_ids ?? [args.model_id];
+
+	// Check if the requested models are available
+	for (const modelId of modelIds) {
+		const modelAvailable = await modelManager.isModelAvailable(modelId);
+		if (!modelAvailable) {
+			log(`Requested model ${modelId} not available`, startTime);
+			return error(
+				400,
+				`Model ${modelId} is not available. Please check your API keys and try a different model.`
+			);
+		}
 	}
 
-	const rulesResultPromise = ResultAsync.fromPromise(
-		client.query(api.user_rules.all, {
-			session_token: sessionToken,
-		}),
-		(e) => `Failed to get rules: ${e}`
-	);
+	const budgetStatusResult = await getBudgetStatuses({ sessionToken, modelIds, modelManager });
+
+	if (budgetStatusResult.isErr()) {
+		log(`Budget check failed: ${budgetStatusResult.error}`, startTime);
+		return error(500, 'Failed to check budget');
+	}
+
+	// One per model, budgets can be set per provider
+	const budgetStatuses = budgetStatusResult.value;
+	log(`Budget status: ${budgetStatuses.map((status) => status.status).join(', ')}`, startTime);
 
 	log('Session authenticated successfully', startTime);
 
 	let conversationId = args.conversation_id;
+	let userMessageId: Id<'messages'> | undefined;
 	if (!conversationId) {
 		// Create new conversation
 		if (args.message === undefined) {
@@ -626,6 +947,7 @@ export const POST: RequestHandler = async ({ request }) => {
 				role: 'user',
 				attachments: args.attachments,
 				web_search_enabled: args.web_search_enabled,
+				project_id: args.project_id as Id<'projects'> | undefined,
 				session_token: sessionToken,
 			}),
 			(e) => `Failed to create conversation: ${e}`
@@ -637,6 +959,7 @@ export const POST: RequestHandler = async ({ request }) => {
 		}
 
 		conversationId = convMessageResult.value.conversationId;
+		userMessageId = convMessageResult.value.messageId;
 		log('New conversation and message created', startTime);
 
 		// Generate title for new conversation in background
@@ -654,7 +977,41 @@ export const POST: RequestHandler = async ({ request }) => {
 	} else {
 		log('Using existing conversation', startTime);
 
-		if (args.message) {
+		if (args.regenerate_message_id) {
+			const regenerateResult = await ResultAsync.fromPromise(
+				client.mutation(api.messages.regenerate, {
+					message_id: args.regenerate_message_id as Id<'messages'>,
+					session_token: sessionToken,
+				}),
+				(e) => `Failed to regenerate message: ${e}`
+			);
+
+			if (regenerateResult.isErr()) {
+				log(regenerateResult.error, startTime);
+				return error(400, 'Failed to regenerate message');
+			}
+
+			log('Conversation rewound, the reply is generated as a new version', startTime);
+		}
+
+		if (args.edit_message_id && args.message !== undefined) {
+			const editResult = await ResultAsync.fromPromise(
+				client.mutation(api.messages.edit, {
+					message_id: args.edit_message_id as Id<'messages'>,
+					content: args.message,
+					session_token: sessionToken,
+				}),
+				(e) => `Failed to edit message: ${e}`
+			);
+
+			if (editResult.isErr()) {
+				log(editResult.error, startTime);
+				return error(400, 'Failed to edit message');
+			}
+
+			userMessageId = editResult.value;
+			log('Edited user message saved as a new version', startTime);
+		} else if (args.message) {
 			const userMessageResult = await ResultAsync.fromPromise(
 				client.mutation(api.messages.create, {
 					conversation_id: conversationId as Id<'conversations'>,
@@ -674,10 +1031,52 @@ export const POST: RequestHandler = async ({ request }) => {
 				return error(500, 'Failed to create user message');
 			}
 
+			userMessageId = userMessageResult.value;
 			log('User message created', startTime);
 		}
 	}
 
+	if (args.compare_model_ids && userMessageId) {
+		const compareResult = await ResultAsync.fromPromise(
+			client.mutation(api.messages.compare, {
+				message_id: userMessageId,
+				model_ids: args.compare_model_ids,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to start comparison: ${e}`
+		);
+
+		if (compareResult.isErr()) {
+			log(compareResult.error, startTime);
+			return error(500, 'Failed to start comparison');
+		}
+
+		log(`Comparing ${args.compare_model_ids.length} models`, startTime);
+	}
+
+	const comparedMessageId = args.compare_model_ids ? userMessageId : undefined;
+
+	// The rules of the conversation's project are attached like the ones set to `always`
+	const rulesResultPromise = ResultAsync.combine([
+		ResultAsync.fromPromise(
+			client.query(api.user_rules.all, {
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to get rules: ${e}`
+		),
+		ResultAsync.fromPromise(
+			client.query(api.projects.getByConversation, {
+				conversation_id: conversationId as Id<'conversations'>,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to get project: ${e}`
+		),
+	]).map(([rules, project]) =>
+		rules.map((rule) =>
+			project?.rule_ids.includes(rule._id) ? { ...rule, attach: 'always' as const } : rule
+		)
+	);
+
 	// Set generating status to true before starting background generation
 	const setGeneratingResult = await ResultAsync.fromPromise(
 		client.mutation(api.conversations.updateGenerating, {
@@ -693,22 +1092,63 @@ export const POST: RequestHandler = async ({ request }) => {
 		return error(500, 'Failed to set generating status');
 	}
 
+	const jobResult = await ResultAsync.fromPromise(
+		client.mutation(api.generation_jobs.start, {
+			conversation_id: conversationId as Id<'conversations'>,
+			model_ids: modelIds,
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to create generation jobs: ${e}`
+	);
+
+	if (jobResult.isErr()) {
+		log(jobResult.error, startTime);
+		await ResultAsync.fromPromise(
+			client.mutation(api.conversations.updateGenerating, {
+				conversation_id: conversationId as Id<'conversations'>,
+				generating: false,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to reset generating status: ${e}`
+		);
+		return error(500, 'Failed to start generation');
+	}
+
+	// One per model, in the same order
+	const jobIds = jobResult.value;
+
 	// Create and cache AbortController for this generation
 	const abortController = new AbortController();
 	generationAbortControllers.set(conversationId, abortController);
 
+	const stopHeartbeat = startHeartbeat({ jobIds, sessionToken, abortController, startTime });
+
+	// Registered before the background work starts so clients can subscribe right away.
+	// Compared answers are only streamed through Convex
+	const liveStream = comparedMessageId ? undefined : new GenerationStream();
+	if (liveStream) generationStreams.set(conversationId, liveStream);
+
 	// Start AI response generation in background
 	waitUntil(
-		generateAIResponse({
-			conversationId,
-			sessionToken,
-			startTime,
-			modelId: args.model_id,
-			modelManager,
-			rulesResultPromise,
-			abortSignal: abortController.signal,
-			reasoningEffort: args.reasoning_effort,
-		})
+		Promise.all(
+			modelIds.map((modelId, i) =>
+				generateAIResponse({
+					conversationId,
+					sessionToken,
+					startTime,
+					modelId,
+					modelManager,
+					rulesResultPromise,
+					abortSignal: abortController.signal,
+					reasoningEffort: args.reasoning_effort,
+					budgetStatus: budgetStatuses[i]!,
+					liveStream,
+					jobId: jobIds[i]!,
+					comparedMessageId,
+					embeddingModel,
+				})
+			)
+		)
 			.catch(async (error) => {
 				log(`Background AI response generation error: ${error}`, startTime);
 				// Reset generating status on error
@@ -722,28 +1162,111 @@ export const POST: RequestHandler = async ({ request }) => {
 					log(`Failed to reset generating status after error: ${e}`, startTime);
 				}
 			})
-			.finally(() => {
+			.finally(async () => {
 				// Clean up the cached AbortController
 				generationAbortControllers.delete(conversationId);
+				liveStream?.close();
+				if (liveStream && generationStreams.get(conversationId) === liveStream) {
+					generationStreams.delete(conversationId);
+				}
+
+				if (comparedMessageId) {
+					const settleResult = await ResultAsync.fromPromise(
+						client.mutation(api.conversations.updateGenerating, {
+							conversation_id: conversationId as Id<'conversations'>,
+							generating: false,
+							session_token: sessionToken,
+						}),
+						(e) => `Failed to update generating status: ${e}`
+					);
+
+					if (settleResult.isErr()) log(settleResult.error, startTime);
+				}
+
+				stopHeartbeat();
+				const finishResult = await ResultAsync.combine(
+					jobIds.map((jobId) =>
+						ResultAsync.fromPromise(
+							client.mutation(api.generation_jobs.finish, {
+								job_id: jobId,
+								session_token: sessionToken,
+							}),
+							(e) => `Failed to finish generation job: ${e}`
+						)
+					)
+				);
+
+				if (finishResult.isErr()) log(finishResult.error, startTime);
 			})
 	);
 
 	log('Response sent, AI generation started in background', startTime);
-	return response({ ok: true, conversation_id: conversationId });
+	return response({
+		ok: true,
+		conversation_id: conversationId,
+		budget_warning: budgetStatuses
+			.map((status) => (status.status === 'warning' ? status.message : undefined))
+			.find(Boolean),
+	});
 };
 
+/**
+ * Keep the generation jobs alive and abort the generation when they're cancelled elsewhere,
+ * e.g. from another server instance.
+ */
+function startHeartbeat({
+	jobIds,
+	sessionToken,
+	abortController,
+	startTime,
+}: {
+	jobIds: Id<'generation_jobs'>[];
+	sessionToken: string;
+	abortController: AbortController;
+	startTime: number;
+}) {
+	const interval = setInterval(async () => {
+		const result = await ResultAsync.combine(
+			jobIds.map((jobId) =>
+				ResultAsync.fromPromise(
+					client.mutation(api.generation_jobs.heartbeat, {
+						job_id: jobId,
+						session_token: sessionToken,
+					}),
+					(e) => `Generation job heartbeat failed: ${e}`
+				)
+			)
+		);
+
+		if (result.isErr()) {
+			log(result.error, startTime);
+			return;
+		}
+
+		const cancelRequested = result.value.some((job) => job.cancel_requested);
+		if (cancelRequested && !abortController.signal.aborted) {
+			log('Generation job was cancelled, aborting', startTime);
+			abortController.abort();
+		}
+	}, HEARTBEAT_INTERVAL_MS);
+
+	return () => clearInterval(interval);
+}
+
 async function handleGenerationError({
 	error,
 	conversationId,
 	messageId,
 	sessionToken,
 	startTime,
+	keepGenerating,
 }: {
 	error: string;
 	conversationId: string;
 	messageId: string | undefined;
 	sessionToken: string;
 	startTime: number;
+	keepGenerating?: boolean;
 }) {
 	log(`Background: ${error}`, startTime);
 
@@ -753,6 +1276,7 @@ async function handleGenerationError({
 			message_id: messageId,
 			error,
 			session_token: sessionToken,
+			keep_generating: keepGenerating,
 		}),
 		(e) => `Error updating error: ${e}`
 	);
@@ -1,2 +1,7 @@
+import type { GenerationStream } from '$lib/utils/generation-stream';
+
 // Global cache for AbortControllers keyed by conversation ID
 export const generationAbortControllers = new Map<string, AbortController>();
+
+// Live generations keyed by conversation ID, read by the SSE endpoint
+export const generationStreams = new Map<string, GenerationStream>();
@@ -0,0 +1,108 @@
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import type { GenerationStreamEvent } from '$lib/utils/generation-stream';
+import { error, type RequestHandler } from '@sveltejs/kit';
+import { ConvexHttpClient } from 'convex/browser';
+import { ResultAsync } from 'neverthrow';
+import { getSessionCookie } from 'better-auth/cookies';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { generationStreams } from '../cache.js';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+// Keeps proxies from closing the connection while the model is thinking or a tool runs
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+function encodeEvent(event: GenerationStreamEvent) {
+	return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Streams the deltas of a running generation as server-sent events.
+ *
+ * Generations only live in the memory of the instance that runs them, so this responds
+ * with 204 when there's nothing to stream here and the client falls back to Convex.
+ */
+export const GET: RequestHandler = async ({ request, url }) => {
+	const conversationId = url.searchParams.get('conversation_id');
+	if (!conversationId) {
+		return error(400, 'Missing conversation_id');
+	}
+
+	const cookie = getSessionCookie(request.headers);
+	const sessionToken = cookie?.split('.')[0] ?? null;
+
+	if (!sessionToken) {
+		return error(401, 'Unauthorized');
+	}
+
+	// Verify the user owns this conversation
+	const conversationResult = await ResultAsync.fromPromise(
+		client.query(api.conversations.getById, {
+			conversation_id: conversationId as Id<'conversations'>,
+			session_token: sessionToken,
+		}),
+		(e) => `Failed to get conversation: ${e}`
+	);
+
+	if (conversationResult.isErr() || !conversationResult.value) {
+		return error(403, 'Conversation not found or unauthorized');
+	}
+
+	const generation = generationStreams.get(conversationId);
+	if (!generation || generation.closed) {
+		// EventSource doesn't reconnect after a 204
+		return new Response(null, { status: 204 });
+	}
+
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			let ended = false;
+			let unsubscribe = () => {};
+
+			const keepAlive = setInterval(() => {
+				controller.enqueue(encoder.encode(': keep-alive\n\n'));
+			}, KEEP_ALIVE_INTERVAL_MS);
+
+			const onAbort = () => end();
+
+			cleanup = () => {
+				clearInterval(keepAlive);
+				unsubscribe();
+				request.signal.removeEventListener('abort', onAbort);
+			};
+
+			const end = () => {
+				if (ended) return;
+				ended = true;
+				cleanup();
+				controller.close();
+			};
+
+			request.signal.addEventListener('abort', onAbort);
+
+			unsubscribe = generation.subscribe((event) => {
+				controller.enqueue(encoder.encode(encodeEvent(event)));
+				if (event.type === 'done' || event.type === 'error') end();
+			});
+
+			// The generation may have ended between the check above and subscribing
+			if (generation.closed) end();
+		},
+		cancel() {
+			cleanup();
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache, no-transform',
+			Connection: 'keep-alive',
+			'X-Accel-Buffering': 'no',
+		},
+	});
+};
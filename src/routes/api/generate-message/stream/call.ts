@@ -0,0 +1,58 @@
+import type { GenerationStreamEvent } from '$lib/utils/generation-stream';
+
+/**
+ * Listen to a running generation over SSE.
+ *
+ * `onEnd` is called once, when the generation finishes or the stream isn't available
+ * (no EventSource support, or the generation runs on another instance), in which case
+ * the caller should rely on the Convex checkpoints instead.
+ *
+ * Returns a function that closes the connection.
+ */
+export function subscribeToGeneration(
+	conversationId: string,
+	{
+		onEvent,
+		onEnd,
+	}: {
+		onEvent: (event: GenerationStreamEvent) => void;
+		onEnd: () => void;
+	}
+): () => void {
+	if (typeof EventSource === 'undefined') {
+		onEnd();
+		return () => {};
+	}
+
+	const source = new EventSource(
+		`/api/generate-message/stream?conversation_id=${encodeURIComponent(conversationId)}`
+	);
+
+	let ended = false;
+	const end = () => {
+		if (ended) return;
+		ended = true;
+		source.close();
+		onEnd();
+	};
+
+	source.onmessage = (e) => {
+		let event: GenerationStreamEvent;
+		try {
+			event = JSON.parse(e.data);
+		} catch {
+			return;
+		}
+
+		onEvent(event);
+		if (event.type === 'done' || event.type === 'error') end();
+	};
+
+	// Fired for 204s and dropped connections alike, reconnecting would only replay the snapshot
+	source.onerror = end;
+
+	return () => {
+		ended = true;
+		source.close();
+	};
+}
@@ -0,0 +1,91 @@
+import { error, json, type RequestHandler } from '@sveltejs/kit';
+import { ConvexHttpClient } from 'convex/browser';
+import { ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import { encryptApiKey } from '$lib/services/user-keys.server';
+import { Provider } from '$lib/types';
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+const reqBodySchema = z.object({
+	provider: z.enum(Object.values(Provider).filter((p) => p !== Provider.Custom) as [Provider]),
+	// An empty key removes the saved one
+	key: z.string().trim(),
+});
+
+export type SaveKeyRequestBody = z.infer<typeof reqBodySchema>;
+
+export type SaveKeyResponse = {
+	ok: true;
+	preview: string | null;
+};
+
+function response(res: SaveKeyResponse) {
+	return json(res);
+}
+
+/**
+ * Keys are encrypted here, before they reach Convex, so the database only ever holds ciphertext
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const session = await locals.auth();
+	if (!session) {
+		return error(401, 'Unauthorized');
+	}
+
+	const bodyResult = await ResultAsync.fromPromise(
+		request.json(),
+		() => 'Failed to parse request body'
+	);
+
+	if (bodyResult.isErr()) {
+		return error(400, 'Failed to parse request body');
+	}
+
+	const parsed = reqBodySchema.safeParse(bodyResult.value);
+	if (!parsed.success) {
+		return error(400, z.prettifyError(parsed.error));
+	}
+	const args = parsed.data;
+
+	if (args.key === '') {
+		const removeResult = await ResultAsync.fromPromise(
+			client.mutation(api.user_keys.remove, {
+				provider: args.provider,
+				session_token: session.session.token,
+			}),
+			(e) => `Failed to remove key: ${e}`
+		);
+
+		if (removeResult.isErr()) {
+			console.error(removeResult.error);
+			return error(500, 'Failed to remove key');
+		}
+
+		return response({ ok: true, preview: null });
+	}
+
+	const encrypted = encryptApiKey(args.key);
+	if (encrypted.isErr()) {
+		console.error(encrypted.error);
+		return error(500, 'Failed to encrypt key');
+	}
+
+	const setResult = await ResultAsync.fromPromise(
+		client.mutation(api.user_keys.set, {
+			provider: args.provider,
+			...encrypted.value,
+			session_token: session.session.token,
+		}),
+		(e) => `Failed to save key: ${e}`
+	);
+
+	if (setResult.isErr()) {
+		console.error(setResult.error);
+		return error(500, 'Failed to save key');
+	}
+
+	return response({ ok: true, preview: encrypted.value.preview });
+};
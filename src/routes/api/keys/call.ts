@@ -0,0 +1,27 @@
+import { ResultAsync } from 'neverthrow';
+import type { SaveKeyRequestBody, SaveKeyResponse } from './+server';
+
+export async function callSaveKey(args: SaveKeyRequestBody) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/keys', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(args),
+			});
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			return res.json() as Promise<SaveKeyResponse>;
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
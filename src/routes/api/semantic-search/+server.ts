@@ -0,0 +1,79 @@
+import { error, json, type RequestHandler } from '@sveltejs/kit';
+import { ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { ConvexHttpClient } from 'convex/browser';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import type { SemanticSearchResult } from '$lib/backend/convex/message_embeddings';
+import { getEmbeddingModel } from '$lib/services/embeddings.server';
+import { getUserApiKeys } from '$lib/services/user-keys.server';
+
+const reqBodySchema = z.object({
+	query: z.string().min(1),
+	limit: z.number().int().min(1).max(100).optional(),
+	include_archived: z.boolean().optional(),
+});
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+export type SemanticSearchRequestBody = z.infer<typeof reqBodySchema>;
+
+export type SemanticSearchResponse = {
+	ok: true;
+	results: SemanticSearchResult[];
+};
+
+/**
+ * Find messages by meaning, the search term is embedded with the same model as the messages
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const bodyResult = await ResultAsync.fromPromise(
+		request.json(),
+		() => 'Failed to parse request body'
+	);
+
+	if (bodyResult.isErr()) {
+		return error(400, 'Failed to parse request body');
+	}
+
+	const parsed = reqBodySchema.safeParse(bodyResult.value);
+	if (!parsed.success) {
+		return error(400, parsed.error);
+	}
+	const args = parsed.data;
+
+	const session = await locals.auth();
+
+	if (!session) {
+		return error(401, 'You must be logged in to search');
+	}
+
+	const userApiKeysResult = await getUserApiKeys(session.session.token);
+	if (userApiKeysResult.isErr()) {
+		return error(500, 'Failed to get user API keys');
+	}
+
+	const embeddingModel = getEmbeddingModel(userApiKeysResult.value);
+	if (!embeddingModel) {
+		return error(400, 'Semantic search needs an OpenAI, Mistral or Cohere API key');
+	}
+
+	const searchResult = await embeddingModel.embed([args.query]).andThen(([embedding]) =>
+		ResultAsync.fromPromise(
+			client.action(api.message_embeddings.search, {
+				session_token: session.session.token,
+				model: embeddingModel.id,
+				embedding: embedding!,
+				limit: args.limit,
+				include_archived: args.include_archived,
+			}),
+			(e) => `Failed to search messages: ${e}`
+		)
+	);
+
+	if (searchResult.isErr()) {
+		return error(500, searchResult.error);
+	}
+
+	return json({ ok: true, results: searchResult.value } satisfies SemanticSearchResponse);
+};
@@ -0,0 +1,31 @@
+import { ResultAsync } from 'neverthrow';
+import type { SemanticSearchRequestBody, SemanticSearchResponse } from './+server';
+
+export async function callSemanticSearch(
+	args: SemanticSearchRequestBody,
+	{ signal }: { signal?: AbortSignal } = {}
+) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/semantic-search', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(args),
+				signal,
+			});
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			return res.json() as Promise<SemanticSearchResponse>;
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
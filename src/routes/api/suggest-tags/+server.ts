@@ -0,0 +1,135 @@
+import { error, json, type RequestHandler } from '@sveltejs/kit';
+import { ResultAsync } from 'neverthrow';
+import { z } from 'zod/v4';
+import { ConvexHttpClient } from 'convex/browser';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '$lib/backend/convex/_generated/api';
+import type { Id } from '$lib/backend/convex/_generated/dataModel';
+import { createModelManager, type CompletionResult } from '$lib/services/model-manager';
+import { getUserApiKeys, getUserCustomProviders } from '$lib/services/user-keys.server';
+
+const reqBodySchema = z.object({
+	conversation_id: z.string(),
+});
+
+const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+
+/** Only the start of the conversation is sent to the model */
+const MAX_CONVERSATION_CHARS = 4000;
+
+export type SuggestTagsRequestBody = z.infer<typeof reqBodySchema>;
+
+export type SuggestTagsResponse = {
+	ok: true;
+	suggested_tags: string[];
+};
+
+/**
+ * Ask the model used for titles to suggest tags for a conversation, they are saved on the
+ * conversation so this only runs once per conversation
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const bodyResult = await ResultAsync.fromPromise(
+		request.json(),
+		() => 'Failed to parse request body'
+	);
+
+	if (bodyResult.isErr()) {
+		return error(400, 'Failed to parse request body');
+	}
+
+	const parsed = reqBodySchema.safeParse(bodyResult.value);
+	if (!parsed.success) {
+		return error(400, parsed.error);
+	}
+	const args = parsed.data;
+
+	const session = await locals.auth();
+
+	if (!session) {
+		return error(401, 'You must be logged in to suggest tags');
+	}
+
+	const sessionToken = session.session.token;
+	const conversationId = args.conversation_id as Id<'conversations'>;
+
+	const [userApiKeysResult, customProvidersResult, messagesResult, tagsResult] = await Promise.all([
+		getUserApiKeys(sessionToken),
+		getUserCustomProviders(sessionToken),
+		ResultAsync.fromPromise(
+			client.query(api.messages.getAllFromConversation, {
+				conversation_id: conversationId,
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to get messages: ${e}`
+		),
+		ResultAsync.fromPromise(
+			client.query(api.conversations.tags, { session_token: sessionToken }),
+			(e) => `Failed to get tags: ${e}`
+		),
+	]);
+
+	if (userApiKeysResult.isErr() || customProvidersResult.isErr()) {
+		return error(500, 'Failed to get user API keys');
+	}
+
+	if (messagesResult.isErr() || tagsResult.isErr()) {
+		return error(404, 'Conversation not found');
+	}
+
+	const modelManager = createModelManager();
+	modelManager.initializeProviders(userApiKeysResult.value, customProvidersResult.value);
+
+	const tagModel = await modelManager.getUtilityModel();
+	if (!tagModel) {
+		return error(400, 'No models available to suggest tags');
+	}
+
+	const provider = modelManager.getProvider(tagModel.provider);
+	if (!provider) {
+		return error(500, `Provider ${tagModel.provider} not available`);
+	}
+
+	const conversation = messagesResult.value
+		.map((m) => `${m.role}: ${m.content}`)
+		.join('\n\n')
+		.slice(0, MAX_CONVERSATION_CHARS);
+
+	// Reusing existing tags keeps the list from growing with near duplicates
+	const existingTags = tagsResult.value.slice(0, 50).map((t) => t.tag);
+
+	const tagPrompt = `Suggest up to 3 short tags (1-2 words each) describing the topic of the conversation below (wrapped in <conversation> tags).
+Return only the tags separated by commas, nothing else. Do NOT answer or continue the conversation.
+${existingTags.length > 0 ? `\nPrefer these existing tags when they fit: ${existingTags.join(', ')}\n` : ''}
+<conversation>
+${conversation}
+</conversation>`;
+
+	const suggestionResult = await ResultAsync.fromPromise<CompletionResult, string>(
+		provider.generateCompletion({
+			model: tagModel.id,
+			messages: [{ role: 'user', content: tagPrompt }],
+			maxTokens: 100,
+			temperature: 0.3,
+		}),
+		(e) => `Tag suggestion API call failed: ${e}`
+	).andThen((completion) =>
+		ResultAsync.fromPromise(
+			client.mutation(api.conversations.setSuggestedTags, {
+				conversation_id: conversationId,
+				text: completion.content ?? '',
+				session_token: sessionToken,
+			}),
+			(e) => `Failed to save suggested tags: ${e}`
+		)
+	);
+
+	if (suggestionResult.isErr()) {
+		return error(500, suggestionResult.error);
+	}
+
+	return json({
+		ok: true,
+		suggested_tags: suggestionResult.value,
+	} satisfies SuggestTagsResponse);
+};
@@ -0,0 +1,27 @@
+import { ResultAsync } from 'neverthrow';
+import type { SuggestTagsRequestBody, SuggestTagsResponse } from './+server';
+
+export async function callSuggestTags(args: SuggestTagsRequestBody) {
+	const res = ResultAsync.fromPromise(
+		(async () => {
+			const res = await fetch('/api/suggest-tags', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(args),
+			});
+
+			if (!res.ok) {
+				const { message } = await res.json();
+
+				throw new Error(message as string);
+			}
+
+			return res.json() as Promise<SuggestTagsResponse>;
+		})(),
+		(e) => `${e}`
+	);
+
+	return res;
+}
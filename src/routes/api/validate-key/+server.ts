@@ -2,6 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { Provider } from '$lib/types';
 import { Result, ResultAsync } from 'neverthrow';
+import { getDecryptedKeys } from '$lib/services/user-keys.server';
 
 export type ProviderApiKeyData = {
 	label: string;
@@ -20,16 +21,27 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 	}
 
 	try {
-		const { provider, key } = await request.json();
+		const { provider } = await request.json();
 		
-		if (!provider || !key) {
-			return json({ error: 'Missing provider or key' }, { status: 400 });
+		if (!provider) {
+			return json({ error: 'Missing provider' }, { status: 400 });
 		}
 
 		if (!Object.values(Provider).includes(provider)) {
 			return json({ error: 'Invalid provider' }, { status: 400 });
 		}
 
+		// The stored key is decrypted here and never sent back to the client
+		const keysResult = await getDecryptedKeys(session.session.token);
+		if (keysResult.isErr()) {
+			return json({ error: keysResult.error }, { status: 500 });
+		}
+
+		const key = keysResult.value[provider as Provider];
+		if (!key) {
+			return json({ error: 'No key saved for this provider' }, { status: 404 });
+		}
+
 		const result = await validateApiKey(provider, key);
 		
 		if (result.isErr()) {